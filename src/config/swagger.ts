@@ -20,6 +20,12 @@ const swaggerDefinition = {
         scheme: 'bearer',
         bearerFormat: 'JWT',
       },
+      apiKeyAuth: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'License API key (also accepted as `Authorization: Bearer blm_...`)',
+      },
     },
     schemas: {
       PaginatedMeta: {
@@ -47,6 +53,50 @@ const swaggerDefinition = {
           meta: { $ref: '#/components/schemas/PaginatedMeta' },
         },
       },
+      AuditEvent: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          actorUserId: { type: 'string', format: 'uuid', nullable: true },
+          actorEmail: {
+            type: 'string',
+            nullable: true,
+            description: 'Null when the acting user was deleted',
+          },
+          action: { type: 'string', example: 'license.deactivate' },
+          targetType: {
+            type: 'string',
+            enum: [
+              'license',
+              'user',
+              'knowledge_base',
+              'document',
+              'ai_config',
+              'api_key',
+              'ingestion_job',
+            ],
+          },
+          targetId: { type: 'string', nullable: true },
+          changes: {
+            type: 'object',
+            nullable: true,
+            description: 'Changed fields as `{ field: { before, after } }`',
+            additionalProperties: {
+              type: 'object',
+              properties: { before: {}, after: {} },
+            },
+            example: { isActive: { before: true, after: false } },
+          },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      PaginatedAuditEventsResponse: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/AuditEvent' } },
+          meta: { $ref: '#/components/schemas/PaginatedMeta' },
+        },
+      },
       PaginatedKnowledgeBasesResponse: {
         type: 'object',
         properties: {
@@ -65,6 +115,142 @@ const swaggerDefinition = {
           },
         },
       },
+      PaginatedConversationsResponse: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/Conversation' } },
+          meta: { $ref: '#/components/schemas/PaginatedMeta' },
+        },
+      },
+      PaginatedIngestionJobsResponse: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/IngestionJob' } },
+          meta: { $ref: '#/components/schemas/PaginatedMeta' },
+        },
+      },
+      SetLicenseQuotasRequest: {
+        type: 'object',
+        properties: {
+          monthlyQuestionQuota: {
+            type: 'integer',
+            nullable: true,
+            minimum: 0,
+          },
+          monthlyTokenQuota: {
+            type: 'integer',
+            nullable: true,
+            minimum: 0,
+          },
+          rateLimitTier: {
+            type: 'string',
+            nullable: true,
+            description: 'Name of an entry in `RATE_LIMIT_TIERS` (null = default limits)',
+            example: 'pro',
+          },
+        },
+      },
+      LlmOverrides: {
+        type: 'object',
+        nullable: true,
+        description:
+          "Chat model settings layered over the AI configuration; omitted fields are inherited. Changing `llmProvider` without `model` uses that provider's default model.",
+        additionalProperties: false,
+        properties: {
+          llmProvider: { type: 'string', enum: ['OPENAI', 'GEMINI', 'ANTHROPIC'] },
+          model: { type: 'string', nullable: true },
+          temperature: { type: 'number', nullable: true, minimum: 0, maximum: 0.3 },
+          maxTokens: { type: 'integer', nullable: true, minimum: 1 },
+          topP: { type: 'number', nullable: true, minimum: 0, maximum: 1 },
+          topK: { type: 'integer', nullable: true, minimum: 0 },
+          frequencyPenalty: { type: 'number', nullable: true, minimum: -2, maximum: 2 },
+          presencePenalty: { type: 'number', nullable: true, minimum: -2, maximum: 2 },
+          stopSequences: { type: 'array', items: { type: 'string' }, nullable: true },
+        },
+      },
+      ApiKey: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          licenseId: { type: 'string', format: 'uuid' },
+          name: { type: 'string', example: 'Booking system' },
+          prefix: {
+            type: 'string',
+            description: 'First characters of the key',
+            example: 'blm_Xk3v9QaZ',
+          },
+          scopes: { type: 'array', items: { type: 'string', enum: ['chat', 'ingest'] } },
+          lastUsedAt: { type: 'string', format: 'date-time', nullable: true },
+          rotatedAt: { type: 'string', format: 'date-time', nullable: true },
+          revokedAt: { type: 'string', format: 'date-time', nullable: true },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      ApiKeyWithSecret: {
+        allOf: [
+          { $ref: '#/components/schemas/ApiKey' },
+          {
+            type: 'object',
+            properties: {
+              key: {
+                type: 'string',
+                description: 'The API key; it cannot be retrieved again',
+              },
+            },
+          },
+        ],
+      },
+      CreateApiKeyRequest: {
+        type: 'object',
+        required: ['name', 'scopes'],
+        properties: {
+          name: { type: 'string', maxLength: 100, example: 'Booking system' },
+          scopes: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', enum: ['chat', 'ingest'] },
+          },
+        },
+      },
+      SetLicenseLlmOverridesRequest: {
+        type: 'object',
+        required: ['llmOverrides'],
+        properties: {
+          llmOverrides: { $ref: '#/components/schemas/LlmOverrides' },
+        },
+      },
+      QuotaExceededResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          quota: { type: 'string', enum: ['questions', 'tokens'] },
+          limit: { type: 'integer' },
+          used: { type: 'integer' },
+          resetsAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      MonthlyUsage: {
+        type: 'object',
+        properties: {
+          licenseId: { type: 'string', format: 'uuid', nullable: true },
+          licenseKey: { type: 'string', nullable: true },
+          month: { type: 'string', example: '2025-06' },
+          questions: { type: 'integer' },
+          ingestions: { type: 'integer' },
+          promptTokens: { type: 'integer' },
+          completionTokens: { type: 'integer' },
+          totalTokens: { type: 'integer' },
+          avgLatencyMs: { type: 'integer', description: 'Average chat latency' },
+          monthlyQuestionQuota: { type: 'integer', nullable: true },
+          monthlyTokenQuota: { type: 'integer', nullable: true },
+        },
+      },
+      UsageSummaryResponse: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/MonthlyUsage' } },
+        },
+      },
       MeResponse: {
         type: 'object',
         properties: {
@@ -94,6 +280,10 @@ const swaggerDefinition = {
             enum: ['ADMIN', 'CUSTOMER'],
             description: 'User role',
           },
+          emailVerified: {
+            type: 'boolean',
+            description: 'Whether the email address has been confirmed',
+          },
           legalName: {
             type: 'string',
             nullable: true,
@@ -175,6 +365,25 @@ const swaggerDefinition = {
             nullable: true,
             description: 'License expiration date (null for no expiration)',
           },
+          monthlyQuestionQuota: {
+            type: 'integer',
+            nullable: true,
+            description: 'Questions allowed per calendar month (null = unlimited)',
+          },
+          monthlyTokenQuota: {
+            type: 'integer',
+            nullable: true,
+            description:
+              'LLM tokens of chat answers allowed per calendar month; ingestion is not counted (null = unlimited)',
+          },
+          rateLimitTier: {
+            type: 'string',
+            nullable: true,
+            description: 'Request rate limit tier (see `RATE_LIMIT_TIERS`); null uses the defaults',
+          },
+          llmOverrides: {
+            $ref: '#/components/schemas/LlmOverrides',
+          },
           user: {
             $ref: '#/components/schemas/User',
           },
@@ -241,6 +450,91 @@ const swaggerDefinition = {
             nullable: true,
             description: 'Custom prompt instructions for this knowledge base (per customer)',
           },
+          embeddingProvider: {
+            type: 'string',
+            enum: ['OPENAI', 'GEMINI', 'VERTEX', 'OPENAI_COMPATIBLE'],
+            description: 'Embedding provider used for every chunk of this knowledge base',
+          },
+          embeddingModel: {
+            type: 'string',
+            description: 'Embedding model (e.g. "text-embedding-3-small", "text-embedding-004")',
+          },
+          embeddingDimension: {
+            type: 'integer',
+            nullable: true,
+            description:
+              'Vector length (null until the first document is embedded for unknown models)',
+          },
+          retrievalMode: {
+            type: 'string',
+            enum: ['vector', 'hybrid'],
+            nullable: true,
+            description:
+              'Retrieval mode for this knowledge base (null = AI configuration default). `hybrid` fuses vector and full-text search',
+          },
+          ocrEnabled: {
+            type: 'boolean',
+            description: 'Whether scanned PDF pages without a text layer are read with OCR',
+          },
+          chunkingStrategy: {
+            type: 'string',
+            enum: ['recursive', 'page', 'heading'],
+            description:
+              '`recursive` (size-based), `page` (chunks never span pages) or `heading` (one chunk per Markdown section)',
+          },
+          chunkSize: { type: 'integer', description: 'Maximum chunk length in characters' },
+          chunkOverlap: { type: 'integer', description: 'Characters shared by consecutive chunks' },
+          chunkSeparators: {
+            type: 'array',
+            items: { type: 'string' },
+            nullable: true,
+            description: 'Split points tried in order (null = paragraph, line, word)',
+          },
+          topK: {
+            type: 'integer',
+            nullable: true,
+            description: 'Chunks passed to the model (null = RAG_TOP_K)',
+          },
+          minScore: {
+            type: 'number',
+            nullable: true,
+            description:
+              'Minimum retrieval score (cosine similarity, or fused score in hybrid mode); null = AI configuration default',
+          },
+          maxContextChars: {
+            type: 'integer',
+            nullable: true,
+            description: 'Maximum characters of context per question (null = no limit)',
+          },
+          noMatchPolicy: {
+            type: 'string',
+            enum: ['refuse', 'global', 'warn'],
+            nullable: true,
+            description:
+              'When no chunk clears `minScore`: `refuse` with `noMatchMessage`, answer from `global` knowledge, or answer from the best chunks with a low-confidence flag (`warn`). null = AI configuration default',
+          },
+          noMatchMessage: {
+            type: 'string',
+            nullable: true,
+            description: 'Reply of the `refuse` policy (null = built-in message)',
+          },
+          reranker: {
+            type: 'string',
+            enum: ['llm', 'cross_encoder', 'lexical'],
+            nullable: true,
+            description:
+              'Reorders over-fetched candidates before the topK are used: `llm` (chat model scoring), `cross_encoder` (rerank API) or `lexical` (local term overlap). null = off',
+          },
+          queryExpansion: {
+            type: 'array',
+            items: { type: 'string', enum: ['standalone', 'multi_query', 'hyde'] },
+            nullable: true,
+            description:
+              'LLM query rewrites searched alongside the question: `standalone` (resolve follow-ups from the chat history), `multi_query` (paraphrases, incl. English) and `hyde` (hypothetical answer passage). null = off',
+          },
+          llmOverrides: {
+            $ref: '#/components/schemas/LlmOverrides',
+          },
           createdAt: {
             type: 'string',
             format: 'date-time',
@@ -261,11 +555,25 @@ const swaggerDefinition = {
           },
           fileName: {
             type: 'string',
-            description: 'Original filename of the uploaded PDF',
+            description: 'Original filename of the uploaded file',
           },
           filePath: {
             type: 'string',
-            description: 'Path to the stored PDF file',
+            description: 'Path to the stored file',
+          },
+          format: {
+            type: 'string',
+            enum: ['pdf', 'docx', 'txt', 'markdown', 'html', 'csv'],
+            description: 'Source format of the file',
+          },
+          currentVersion: {
+            type: 'integer',
+            description: 'Version whose file and vectors are live',
+          },
+          contentHash: {
+            type: 'string',
+            nullable: true,
+            description: 'SHA-256 of the current file (hex)',
           },
           metadata: {
             type: 'object',
@@ -276,9 +584,30 @@ const swaggerDefinition = {
                 type: 'number',
                 description: 'File size in bytes',
               },
+              mimeType: {
+                type: 'string',
+                description: 'MIME type sent by the client',
+              },
               pageCount: {
                 type: 'number',
-                description: 'Number of pages in the PDF',
+                description: 'Number of pages (PDF only)',
+              },
+              ocr: {
+                type: 'object',
+                description: 'Present when pages were read with OCR',
+                properties: {
+                  engine: { type: 'string', example: 'tesseract' },
+                  pages: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        pageNumber: { type: 'integer' },
+                        confidence: { type: 'number', description: 'Mean word confidence, 0-100' },
+                      },
+                    },
+                  },
+                },
               },
               uploadedAt: {
                 type: 'string',
@@ -424,7 +753,15 @@ const swaggerDefinition = {
         properties: {
           token: {
             type: 'string',
-            description: 'JWT authentication token',
+            description: 'Short-lived JWT access token',
+          },
+          refreshToken: {
+            type: 'string',
+            description: 'Opaque refresh token for POST /auth/refresh',
+          },
+          verificationRequired: {
+            type: 'boolean',
+            description: 'Set on register when the email must be verified before login',
           },
           user: {
             $ref: '#/components/schemas/User',
@@ -437,6 +774,62 @@ const swaggerDefinition = {
           },
         },
       },
+      RefreshTokenRequest: {
+        type: 'object',
+        required: ['refreshToken'],
+        properties: {
+          refreshToken: {
+            type: 'string',
+          },
+        },
+      },
+      TokenPairResponse: {
+        type: 'object',
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Short-lived JWT access token',
+          },
+          refreshToken: {
+            type: 'string',
+            description: 'Replaces the refresh token that was presented',
+          },
+        },
+      },
+      EmailRequest: {
+        type: 'object',
+        required: ['email'],
+        properties: {
+          email: {
+            type: 'string',
+            format: 'email',
+          },
+        },
+      },
+      ResetPasswordRequest: {
+        type: 'object',
+        required: ['token', 'newPassword'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Token from the reset link',
+          },
+          newPassword: {
+            type: 'string',
+            minLength: 6,
+          },
+        },
+      },
+      VerifyEmailRequest: {
+        type: 'object',
+        required: ['token'],
+        properties: {
+          token: {
+            type: 'string',
+            description: 'Token from the verification link',
+          },
+        },
+      },
       CreateLicenseRequest: {
         type: 'object',
         required: ['userId'],
@@ -490,6 +883,54 @@ const swaggerDefinition = {
             nullable: true,
             description: 'Custom prompt instructions for this knowledge base (per customer)',
           },
+          embeddingProvider: {
+            type: 'string',
+            enum: ['OPENAI', 'GEMINI', 'VERTEX', 'OPENAI_COMPATIBLE'],
+            description: 'Embedding provider (defaults to the AI configuration, then OPENAI)',
+          },
+          embeddingModel: {
+            type: 'string',
+            nullable: true,
+            description:
+              'Embedding model (defaults to the provider default; required for OPENAI_COMPATIBLE unless EMBEDDINGS_COMPATIBLE_MODEL is set)',
+          },
+          embeddingDimension: {
+            type: 'integer',
+            nullable: true,
+            description:
+              'Output dimension (defaults to the model size; shortening is supported by text-embedding-3, text-embedding-004/005 and gemini-embedding models)',
+          },
+          retrievalMode: {
+            type: 'string',
+            enum: ['vector', 'hybrid'],
+            nullable: true,
+            description:
+              '`vector` (semantic only) or `hybrid` (vector + full-text, better for exact codes and names); null = AI configuration default',
+          },
+          ocrEnabled: {
+            type: 'boolean',
+            description: 'OCR scanned PDF pages (default false)',
+          },
+          chunkingStrategy: {
+            type: 'string',
+            enum: ['recursive', 'page', 'heading'],
+            default: 'recursive',
+          },
+          chunkSize: { type: 'integer', minimum: 100, maximum: 8000, default: 1000 },
+          chunkOverlap: { type: 'integer', minimum: 0, maximum: 4000, default: 200 },
+          chunkSeparators: { type: 'array', items: { type: 'string' }, nullable: true },
+          topK: { type: 'integer', minimum: 1, maximum: 50, nullable: true },
+          minScore: { type: 'number', minimum: 0, maximum: 1, nullable: true },
+          maxContextChars: { type: 'integer', minimum: 500, maximum: 200000, nullable: true },
+          noMatchPolicy: { type: 'string', enum: ['refuse', 'global', 'warn'], nullable: true },
+          noMatchMessage: { type: 'string', maxLength: 2000, nullable: true },
+          reranker: { type: 'string', enum: ['llm', 'cross_encoder', 'lexical'], nullable: true },
+          queryExpansion: {
+            type: 'array',
+            items: { type: 'string', enum: ['standalone', 'multi_query', 'hyde'] },
+            nullable: true,
+          },
+          llmOverrides: { $ref: '#/components/schemas/LlmOverrides' },
         },
       },
       AIConfiguration: {
@@ -562,6 +1003,43 @@ const swaggerDefinition = {
             nullable: true,
             description: 'Stop sequences (Gemini/Anthropic)',
           },
+          fallbackLlms: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/LlmOverrides' },
+            nullable: true,
+            description:
+              'Tried in order when the answering LLM keeps failing (after retries) or its circuit is open. Each entry is layered over the resolved settings',
+          },
+          embeddingProvider: {
+            type: 'string',
+            enum: ['OPENAI', 'GEMINI', 'VERTEX', 'OPENAI_COMPATIBLE'],
+            description: 'Default embedding provider for new knowledge bases',
+          },
+          embeddingModel: {
+            type: 'string',
+            nullable: true,
+            description: 'Default embedding model for new knowledge bases',
+          },
+          embeddingDimension: {
+            type: 'integer',
+            nullable: true,
+            description: 'Default embedding dimension for new knowledge bases',
+          },
+          retrievalMode: {
+            type: 'string',
+            enum: ['vector', 'hybrid'],
+            description: 'Default retrieval mode for knowledge bases without their own setting',
+          },
+          minScore: {
+            type: 'number',
+            nullable: true,
+            description: 'Relevance threshold for knowledge bases without their own `minScore`',
+          },
+          noMatchPolicy: {
+            type: 'string',
+            enum: ['refuse', 'global', 'warn'],
+            description: 'What to answer when no chunk clears the threshold (default `global`)',
+          },
           createdAt: {
             type: 'string',
             format: 'date-time',
@@ -624,6 +1102,43 @@ const swaggerDefinition = {
             nullable: true,
             description: 'Stop sequences',
           },
+          fallbackLlms: {
+            type: 'array',
+            maxItems: 5,
+            items: { $ref: '#/components/schemas/LlmOverrides' },
+            nullable: true,
+            description: 'Ordered failover LLMs, e.g. `[{ "llmProvider": "ANTHROPIC" }]`',
+          },
+          embeddingProvider: {
+            type: 'string',
+            enum: ['OPENAI', 'GEMINI', 'VERTEX', 'OPENAI_COMPATIBLE'],
+            description: 'Default embedding provider for new knowledge bases',
+          },
+          embeddingModel: {
+            type: 'string',
+            nullable: true,
+            description: 'Default embedding model for new knowledge bases',
+          },
+          embeddingDimension: {
+            type: 'integer',
+            nullable: true,
+            description: 'Default embedding dimension for new knowledge bases',
+          },
+          retrievalMode: {
+            type: 'string',
+            enum: ['vector', 'hybrid'],
+            description: 'Default retrieval mode for knowledge bases without their own setting',
+          },
+          minScore: {
+            type: 'number',
+            nullable: true,
+            description: 'Relevance threshold for knowledge bases without their own `minScore`',
+          },
+          noMatchPolicy: {
+            type: 'string',
+            enum: ['refuse', 'global', 'warn'],
+            description: 'What to answer when no chunk clears the threshold (default `global`)',
+          },
         },
       },
       AttachKnowledgeBaseRequest: {
@@ -644,7 +1159,7 @@ const swaggerDefinition = {
       },
       ChatRequest: {
         type: 'object',
-        required: ['question', 'licenseKey'],
+        required: ['question'],
         properties: {
           question: {
             type: 'string',
@@ -652,7 +1167,7 @@ const swaggerDefinition = {
           },
           licenseKey: {
             type: 'string',
-            description: 'License key to use for the query',
+            description: 'License key to use for the query (required unless an API key is used)',
           },
           kbId: {
             type: 'string',
@@ -660,11 +1175,18 @@ const swaggerDefinition = {
             nullable: true,
             description: 'Knowledge Base ID to use (optional, uses first KB if not specified)',
           },
-          history: {
+          conversationId: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            description:
+              'Conversation thread to use. History is loaded from the thread (`history` is ignored) and the answer is stored in it.',
+          },
+          history: {
             type: 'array',
             nullable: true,
             description:
-              'Optional conversation history to make the chat context-aware. Send the last N turns (recommended <= 12).',
+              'Optional conversation history to make the chat context-aware. Send the last N turns (recommended <= 12). Ignored when `conversationId` is set.',
             items: {
               type: 'object',
               required: ['role', 'content'],
@@ -681,6 +1203,57 @@ const swaggerDefinition = {
           },
         },
       },
+      ChatSource: {
+        type: 'object',
+        description: 'Retrieved chunk the answer may cite inline as `[index]`',
+        properties: {
+          index: {
+            type: 'integer',
+            example: 1,
+            description: 'Number used for inline `[n]` references in the answer',
+          },
+          documentId: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+          },
+          fileName: {
+            type: 'string',
+            nullable: true,
+          },
+          kbId: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+          },
+          pageStart: {
+            type: 'integer',
+            nullable: true,
+            description: 'First PDF page the chunk came from',
+          },
+          pageEnd: {
+            type: 'integer',
+            nullable: true,
+            description: 'Last PDF page the chunk came from',
+          },
+          score: {
+            type: 'number',
+            description: 'Cosine similarity score of the chunk',
+          },
+          snippet: {
+            type: 'string',
+            description: 'Short excerpt of the chunk text',
+          },
+          downloadUrl: {
+            type: 'string',
+            nullable: true,
+            description:
+              'Signed, expiring URL of the document file (no bearer token needed), anchored to the cited page (`#page=N`) when known',
+            example:
+              '/knowledge-bases/{id}/documents/{documentId}/file/signed?expires=1767225600&signature=...&license=...#page=37',
+          },
+        },
+      },
       ChatResponse: {
         type: 'object',
         properties: {
@@ -688,11 +1261,308 @@ const swaggerDefinition = {
             type: 'string',
             description: 'Answer from the RAG system',
           },
+          sources: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/ChatSource' },
+            description: 'Citations for the answer (empty for global answers)',
+          },
+          mode: {
+            type: 'string',
+            enum: ['kb', 'multi_kb', 'global'],
+            description: 'Retrieval path actually used (a KB without vectors falls back to global)',
+          },
+          retrieval: {
+            type: 'string',
+            enum: ['matched', 'refused', 'global_fallback', 'low_confidence'],
+            description:
+              'For KB questions: `matched`, or the no-match policy applied when no chunk cleared `minScore`. `low_confidence` answers are based on chunks below the threshold',
+          },
+          llm: {
+            type: 'object',
+            description: 'LLM that produced the answer (absent for refusals)',
+            properties: {
+              provider: { type: 'string', example: 'OPENAI' },
+              model: { type: 'string', nullable: true },
+              fallback: {
+                type: 'boolean',
+                description: 'True when a fallback answered because the resolved LLM failed',
+              },
+            },
+          },
+          conversationId: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Present when the request used `conversationId`',
+          },
+          messageId: {
+            type: 'string',
+            format: 'uuid',
+            description: 'Stored assistant message ID (present when `conversationId` was used)',
+          },
+        },
+      },
+      Conversation: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+          },
+          title: {
+            type: 'string',
+            nullable: true,
+            description: 'Thread title (defaults to the first question)',
+          },
+          licenseId: {
+            type: 'string',
+            format: 'uuid',
+          },
+          userId: {
+            type: 'string',
+            format: 'uuid',
+          },
+          kbId: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            description: 'Knowledge Base pinned to this thread (null = all attached KBs)',
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      ConversationMessage: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+          },
+          conversationId: {
+            type: 'string',
+            format: 'uuid',
+          },
+          role: {
+            type: 'string',
+            enum: ['user', 'assistant'],
+          },
+          content: {
+            type: 'string',
+          },
+          sources: {
+            type: 'array',
+            nullable: true,
+            items: { $ref: '#/components/schemas/ChatSource' },
+            description: 'Sources retrieved for assistant answers',
+          },
+          mode: {
+            type: 'string',
+            nullable: true,
+            enum: ['kb', 'multi_kb', 'global'],
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+        },
+      },
+      ConversationWithMessages: {
+        allOf: [
+          { $ref: '#/components/schemas/Conversation' },
+          {
+            type: 'object',
+            properties: {
+              messages: {
+                type: 'array',
+                items: { $ref: '#/components/schemas/ConversationMessage' },
+              },
+            },
+          },
+        ],
+      },
+      CreateConversationRequest: {
+        type: 'object',
+        required: ['licenseKey'],
+        properties: {
+          licenseKey: {
+            type: 'string',
+            description: 'License key the thread belongs to',
+          },
+          title: {
+            type: 'string',
+            nullable: true,
+          },
+          kbId: {
+            type: 'string',
+            format: 'uuid',
+            nullable: true,
+            description: 'Optional Knowledge Base to pin to the thread',
+          },
+        },
+      },
+      RenameConversationRequest: {
+        type: 'object',
+        required: ['title'],
+        properties: {
+          title: {
+            type: 'string',
+          },
+        },
+      },
+      IngestionJobAccepted: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+          },
+          jobId: {
+            type: 'string',
+            format: 'uuid',
+          },
+          statusUrl: {
+            type: 'string',
+            example: '/jobs/123e4567-e89b-12d3-a456-426614174000',
+          },
+          documents: {
+            type: 'array',
+            description: 'Documents created by an upload',
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                fileName: { type: 'string' },
+                format: { type: 'string', enum: ['pdf', 'docx', 'txt', 'markdown', 'html', 'csv'] },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+          },
+          totalDocuments: {
+            type: 'number',
+            description: 'Documents queued by a reindex',
+          },
+          duplicates: {
+            type: 'array',
+            description: 'Uploaded files skipped as duplicates (`onDuplicate=link`)',
+            items: { $ref: '#/components/schemas/DuplicateUpload' },
+          },
+          rejected: {
+            type: 'array',
+            description: 'Uploaded files skipped because they are empty or not of their format',
+            items: { $ref: '#/components/schemas/RejectedUpload' },
+          },
+        },
+      },
+      RejectedUpload: {
+        type: 'object',
+        properties: {
+          fileName: { type: 'string' },
+          error: { type: 'string', example: 'File is not a valid PDF' },
+        },
+      },
+      DuplicateUpload: {
+        type: 'object',
+        properties: {
+          fileName: { type: 'string' },
+          contentHash: { type: 'string', description: 'SHA-256 of the file (hex)' },
+          existingDocumentId: { type: 'string', format: 'uuid', nullable: true },
+          existingFileName: { type: 'string' },
+        },
+      },
+      DuplicateUploadResponse: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          duplicates: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/DuplicateUpload' },
+          },
+        },
+      },
+      IngestionJobItem: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+          },
+          documentId: {
+            type: 'string',
+            format: 'uuid',
+          },
+          fileName: {
+            type: 'string',
+          },
+          status: {
+            type: 'string',
+            enum: ['queued', 'parsing', 'embedding', 'done', 'failed', 'cancelled', 'skipped'],
+          },
+          error: {
+            type: 'string',
+            nullable: true,
+          },
+          attempts: {
+            type: 'number',
+          },
+          finishedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+        },
+      },
+      IngestionJob: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            format: 'uuid',
+          },
+          type: {
+            type: 'string',
+            enum: ['upload', 'reindex', 'replace', 'rollback'],
+          },
+          knowledgeBaseId: {
+            type: 'string',
+            format: 'uuid',
+          },
+          status: {
+            type: 'string',
+            enum: ['queued', 'running', 'completed', 'completed_with_errors', 'cancelled'],
+            description: 'Derived from the status of the job items',
+          },
+          counts: {
+            type: 'object',
+            description: 'Number of items per item status',
+            additionalProperties: { type: 'number' },
+          },
+          items: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/IngestionJobItem' },
+          },
+          cancelledAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+          },
+          createdAt: {
+            type: 'string',
+            format: 'date-time',
+          },
+          updatedAt: {
+            type: 'string',
+            format: 'date-time',
+          },
         },
       },
       UploadDocumentRequest: {
         type: 'object',
-        required: ['text', 'licenseKey', 'kbId'],
+        required: ['text', 'kbId'],
         properties: {
           text: {
             type: 'string',
@@ -705,7 +1575,8 @@ const swaggerDefinition = {
           },
           licenseKey: {
             type: 'string',
-            description: 'License key to associate the document with',
+            description:
+              'License key to associate the document with (required unless an API key is used)',
           },
           kbId: {
             type: 'string',
@@ -714,6 +1585,101 @@ const swaggerDefinition = {
           },
         },
       },
+      DocumentVersion: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          documentId: { type: 'string', format: 'uuid' },
+          version: { type: 'integer' },
+          fileName: { type: 'string' },
+          format: { type: 'string', enum: ['pdf', 'docx', 'txt', 'markdown', 'html', 'csv'] },
+          metadata: { type: 'object', nullable: true },
+          createdByUserId: { type: 'string', nullable: true },
+          ingestedAt: {
+            type: 'string',
+            format: 'date-time',
+            nullable: true,
+            description: 'When the version was indexed (null while pending or if indexing failed)',
+          },
+          isCurrent: { type: 'boolean' },
+          createdAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      DocumentListItem: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          fileName: { type: 'string' },
+          format: { type: 'string', enum: ['pdf', 'docx', 'txt', 'markdown', 'html', 'csv'] },
+          currentVersion: { type: 'integer' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+          downloadUrl: {
+            type: 'string',
+            description: 'Signed download URL bound to the license of the caller',
+          },
+          downloadUrlExpiresAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      PaginatedDocumentsResponse: {
+        type: 'object',
+        properties: {
+          items: { type: 'array', items: { $ref: '#/components/schemas/DocumentListItem' } },
+          meta: { $ref: '#/components/schemas/PaginatedMeta' },
+        },
+      },
+      CreateDocumentLinkRequest: {
+        type: 'object',
+        properties: {
+          page: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Page the link opens on (`#page=N` fragment)',
+          },
+          expiresIn: {
+            type: 'integer',
+            minimum: 60,
+            maximum: 604800,
+            description: 'Lifetime in seconds (default `DOWNLOAD_URL_TTL_SECONDS`, 900)',
+          },
+        },
+      },
+      DocumentLink: {
+        type: 'object',
+        properties: {
+          url: { type: 'string' },
+          expiresAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      DocumentVersionsResponse: {
+        type: 'object',
+        properties: {
+          documentId: { type: 'string', format: 'uuid' },
+          currentVersion: { type: 'integer' },
+          versions: {
+            type: 'array',
+            items: { $ref: '#/components/schemas/DocumentVersion' },
+          },
+        },
+      },
+      DocumentVersionAccepted: {
+        type: 'object',
+        properties: {
+          message: { type: 'string' },
+          documentId: { type: 'string', format: 'uuid' },
+          version: { type: 'integer' },
+          jobId: { type: 'string', format: 'uuid' },
+          statusUrl: { type: 'string', example: '/jobs/123e4567-e89b-12d3-a456-426614174000' },
+        },
+      },
+      MessageResponse: {
+        type: 'object',
+        properties: {
+          message: {
+            type: 'string',
+          },
+        },
+      },
       ErrorResponse: {
         type: 'object',
         properties: {
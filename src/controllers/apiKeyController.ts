@@ -0,0 +1,152 @@
+import { Request, Response } from 'express'
+import { z } from 'zod'
+
+import { AppDataSource } from '../data-source'
+import { ApiKeyScope } from '../entities/ApiKey'
+import { AuditTargetType } from '../entities/AuditEvent'
+import { License } from '../entities/License'
+import { UserRole } from '../entities/User'
+import {
+  createApiKey,
+  findApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  toApiKeySummary,
+} from '../services/apiKeyService'
+import { recordAuditEvent } from '../services/auditService'
+import type { TokenPayload } from '../utils/jwt'
+
+const licenseRepository = AppDataSource.getRepository(License)
+
+type ApiKeyParams = { id: string; keyId: string }
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z
+    .array(z.nativeEnum(ApiKeyScope))
+    .min(1)
+    .transform(scopes => [...new Set(scopes)]),
+})
+
+/**
+ * Admins manage the keys of every license, customers those of their own license.
+ */
+const findManagedLicense = async (
+  user: TokenPayload,
+  licenseId: string,
+): Promise<{ license: License | null; forbidden: boolean }> => {
+  const license = await licenseRepository.findOne({
+    where: { id: licenseId },
+    relations: ['user'],
+  })
+  const forbidden = !!license && user.role !== UserRole.ADMIN && license.user?.id !== user.userId
+  return { license, forbidden }
+}
+
+export const listLicenseApiKeys = async (req: Request<{ id: string }>, res: Response) => {
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  try {
+    const { license, forbidden } = await findManagedLicense(user, req.params.id)
+    if (!license) return res.status(404).json({ message: 'License not found' })
+    if (forbidden) return res.status(403).json({ message: 'Forbidden access to this license' })
+
+    const apiKeys = await listApiKeys(license.id)
+    return res.json(apiKeys.map(toApiKeySummary))
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error listing API keys' })
+  }
+}
+
+export const createLicenseApiKey = async (req: Request<{ id: string }>, res: Response) => {
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  const parsed = createApiKeySchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const { license, forbidden } = await findManagedLicense(user, req.params.id)
+    if (!license) return res.status(404).json({ message: 'License not found' })
+    if (forbidden) return res.status(403).json({ message: 'Forbidden access to this license' })
+
+    const { apiKey, key } = await createApiKey({
+      licenseId: license.id,
+      ...parsed.data,
+      createdByUserId: user.userId,
+    })
+    await recordAuditEvent(user, {
+      action: 'api_key.create',
+      targetType: AuditTargetType.API_KEY,
+      targetId: apiKey.id,
+      after: toApiKeySummary(apiKey),
+    })
+    // The key is shown once; only its hash is stored
+    return res.status(201).json({ ...toApiKeySummary(apiKey), key })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error creating API key' })
+  }
+}
+
+export const rotateLicenseApiKey = async (req: Request<ApiKeyParams>, res: Response) => {
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  try {
+    const { license, forbidden } = await findManagedLicense(user, req.params.id)
+    if (!license) return res.status(404).json({ message: 'License not found' })
+    if (forbidden) return res.status(403).json({ message: 'Forbidden access to this license' })
+
+    const existing = await findApiKey(license.id, req.params.keyId)
+    if (!existing) return res.status(404).json({ message: 'API key not found' })
+    if (existing.revokedAt) return res.status(409).json({ message: 'API key has been revoked' })
+
+    const before = toApiKeySummary(existing)
+    const { apiKey, key } = await rotateApiKey(existing)
+    await recordAuditEvent(user, {
+      action: 'api_key.rotate',
+      targetType: AuditTargetType.API_KEY,
+      targetId: apiKey.id,
+      before,
+      after: toApiKeySummary(apiKey),
+    })
+    return res.json({ ...toApiKeySummary(apiKey), key })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error rotating API key' })
+  }
+}
+
+export const revokeLicenseApiKey = async (req: Request<ApiKeyParams>, res: Response) => {
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  try {
+    const { license, forbidden } = await findManagedLicense(user, req.params.id)
+    if (!license) return res.status(404).json({ message: 'License not found' })
+    if (forbidden) return res.status(403).json({ message: 'Forbidden access to this license' })
+
+    const existing = await findApiKey(license.id, req.params.keyId)
+    if (!existing) return res.status(404).json({ message: 'API key not found' })
+
+    const before = toApiKeySummary(existing)
+    const apiKey = await revokeApiKey(existing)
+    await recordAuditEvent(user, {
+      action: 'api_key.revoke',
+      targetType: AuditTargetType.API_KEY,
+      targetId: apiKey.id,
+      before,
+      after: toApiKeySummary(apiKey),
+    })
+    return res.json(toApiKeySummary(apiKey))
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error revoking API key' })
+  }
+}
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express'
+import { z } from 'zod'
+
+import { AuditTargetType } from '../entities/AuditEvent'
+import { listAuditEvents } from '../services/auditService'
+import { buildMeta, parsePaginationQuery } from '../utils/pagination'
+
+const auditQuerySchema = z.object({
+  actorUserId: z.string().uuid().optional(),
+  targetType: z.nativeEnum(AuditTargetType).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+})
+
+export const listAudit = async (req: Request, res: Response) => {
+  const parsed = parsePaginationQuery(req.query, { defaultSortDir: 'DESC' })
+  if (!parsed.ok) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid pagination params', issues: parsed.error.format() })
+  }
+  const filters = auditQuerySchema.safeParse(req.query)
+  if (!filters.success) {
+    return res.status(400).json({ message: 'Invalid query params', issues: filters.error.format() })
+  }
+
+  try {
+    const [items, totalItems] = await listAuditEvents(filters.data, {
+      skip: parsed.skip,
+      take: parsed.take,
+      sortDir: parsed.sortDir,
+    })
+
+    return res.json({
+      items,
+      meta: buildMeta({
+        page: parsed.page,
+        pageSize: parsed.pageSize,
+        totalItems,
+        sortBy: 'createdAt',
+        sortDir: parsed.sortDir,
+      }),
+    })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error listing audit events' })
+  }
+}
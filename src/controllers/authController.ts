@@ -1,13 +1,51 @@
 import bcrypt from 'bcryptjs'
 import { Request, Response } from 'express'
+import { z } from 'zod'
 
 import { AppDataSource } from '../data-source'
 import { CustomerStatus, User, UserRole } from '../entities/User'
-import { signToken } from '../utils/jwt'
+import { UserTokenPurpose } from '../entities/UserToken'
+import {
+  issueAuthTokens,
+  revokeRefreshToken,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from '../services/authTokenService'
+import { sendPasswordResetEmail, sendVerificationEmail } from '../services/mail/mailService'
+import {
+  checkLoginLockout,
+  clearLoginFailures,
+  recordLoginFailure,
+} from '../services/rateLimit/loginLockout'
+import { consumeUserToken, createUserToken } from '../services/userTokenService'
 import { sanitizeUser } from '../utils/userUtils'
 
 const userRepository = AppDataSource.getRepository(User)
 
+const refreshTokenSchema = z.object({
+  refreshToken: z.string().trim().min(1),
+})
+
+const emailSchema = z.object({
+  email: z.string().trim().email(),
+})
+
+const resetPasswordSchema = z.object({
+  token: z.string().trim().min(1),
+  newPassword: z.string().min(6, 'Password must be at least 6 characters long'),
+})
+
+const verifyEmailSchema = z.object({
+  token: z.string().trim().min(1),
+})
+
+const isEmailVerificationRequired = () => process.env.EMAIL_VERIFICATION_REQUIRED === 'true'
+
+const sendUserVerificationEmail = async (user: User) => {
+  const { token, expiresAt } = await createUserToken(user.id, UserTokenPurpose.EMAIL_VERIFICATION)
+  await sendVerificationEmail(user.email, token, expiresAt)
+}
+
 export const register = async (req: Request, res: Response) => {
   const {
     email,
@@ -29,6 +67,7 @@ export const register = async (req: Request, res: Response) => {
     }
 
     const hashedPassword = await bcrypt.hash(password, 10)
+    const verificationRequired = isEmailVerificationRequired()
     const user = userRepository.create({
       email,
       password: hashedPassword,
@@ -40,6 +79,7 @@ export const register = async (req: Request, res: Response) => {
       contactNumber: contactNumber ?? null,
       address: address ?? null,
       assignedAgentFullName: assignedAgentFullName ?? null,
+      emailVerified: !verificationRequired,
     })
 
     await userRepository.save(user)
@@ -49,9 +89,20 @@ export const register = async (req: Request, res: Response) => {
       relations: ['license'],
     })
 
-    const token = signToken({ userId: user.id, role: user.role })
+    // No tokens until the address is confirmed; login is refused meanwhile
+    if (verificationRequired) {
+      await sendUserVerificationEmail(user)
+      return res.status(201).json({
+        user: savedUser ? sanitizeUser(savedUser) : sanitizeUser(user),
+        license: null,
+        verificationRequired: true,
+      })
+    }
+
+    const { token, refreshToken } = await issueAuthTokens(user)
     return res.status(201).json({
       token,
+      refreshToken,
       user: savedUser ? sanitizeUser(savedUser) : sanitizeUser(user),
       license: null,
     })
@@ -63,23 +114,40 @@ export const register = async (req: Request, res: Response) => {
 
 export const login = async ({ body: { email, password } }: Request, res: Response) => {
   try {
+    // Unknown emails count as failures too, so lockouts do not reveal which accounts exist
+    const lockout = typeof email === 'string' ? await checkLoginLockout(email) : null
+    if (lockout && !lockout.allowed) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil(lockout.retryAfterMs / 1000))))
+      return res
+        .status(429)
+        .json({ message: 'Too many failed login attempts, please try again later' })
+    }
+
     const user = await userRepository.findOne({
       where: { email },
       relations: ['license'],
     })
 
     if (!user) {
+      if (lockout) await recordLoginFailure(email)
       return res.status(401).json({ message: 'Invalid credentials' })
     }
 
     const isPasswordValid = await bcrypt.compare(password, user.password)
     if (!isPasswordValid) {
+      if (lockout) await recordLoginFailure(email)
       return res.status(401).json({ message: 'Invalid credentials' })
     }
+    if (lockout) await clearLoginFailures(email)
 
-    const token = signToken({ userId: user.id, role: user.role })
+    if (isEmailVerificationRequired() && !user.emailVerified) {
+      return res.status(403).json({ message: 'Email address not verified' })
+    }
+
+    const { token, refreshToken } = await issueAuthTokens(user)
     return res.json({
       token,
+      refreshToken,
       user: sanitizeUser(user),
       license: user.license?.key ?? null,
     })
@@ -88,3 +156,142 @@ export const login = async ({ body: { email, password } }: Request, res: Respons
     return res.status(500).json({ message: 'Internal server error' })
   }
 }
+
+export const refresh = async (req: Request, res: Response) => {
+  const parsed = refreshTokenSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const result = await rotateRefreshToken(parsed.data.refreshToken)
+    if (!result.ok) {
+      const message =
+        result.reason === 'reused'
+          ? 'Refresh token reuse detected; all sessions from this login were revoked'
+          : result.reason === 'expired'
+            ? 'Refresh token expired'
+            : 'Invalid refresh token'
+      return res.status(401).json({ message })
+    }
+
+    return res.json(result.tokens)
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
+
+export const logout = async (req: Request, res: Response) => {
+  const parsed = refreshTokenSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    await revokeRefreshToken(parsed.data.refreshToken)
+    return res.json({ message: 'Logged out successfully' })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
+
+// Same answer whether or not the address exists, so accounts cannot be enumerated
+const FORGOT_PASSWORD_MESSAGE = 'If an account exists for this email, a reset link has been sent'
+
+export const forgotPassword = async (req: Request, res: Response) => {
+  const parsed = emailSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const user = await userRepository.findOneBy({ email: parsed.data.email })
+    if (user) {
+      // A failed send must not answer differently from an unknown address
+      try {
+        const { token, expiresAt } = await createUserToken(user.id, UserTokenPurpose.PASSWORD_RESET)
+        await sendPasswordResetEmail(user.email, token, expiresAt)
+      } catch (error) {
+        console.error('Error sending password reset email:', error)
+      }
+    }
+
+    return res.json({ message: FORGOT_PASSWORD_MESSAGE })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
+
+export const resetPassword = async (req: Request, res: Response) => {
+  const parsed = resetPasswordSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const userId = await consumeUserToken(parsed.data.token, UserTokenPurpose.PASSWORD_RESET)
+    if (!userId) return res.status(400).json({ message: 'Invalid or expired reset token' })
+
+    const user = await userRepository.findOneBy({ id: userId })
+    if (!user) return res.status(400).json({ message: 'Invalid or expired reset token' })
+
+    user.password = await bcrypt.hash(parsed.data.newPassword, 10)
+    // The link proves the user controls the address
+    user.emailVerified = true
+    await userRepository.save(user)
+    await revokeUserSessions(user.id)
+
+    return res.json({ message: 'Password reset successfully' })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
+
+export const verifyEmail = async (req: Request, res: Response) => {
+  const parsed = verifyEmailSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const userId = await consumeUserToken(parsed.data.token, UserTokenPurpose.EMAIL_VERIFICATION)
+    if (!userId) return res.status(400).json({ message: 'Invalid or expired verification token' })
+
+    await userRepository.update({ id: userId }, { emailVerified: true })
+
+    return res.json({ message: 'Email verified successfully' })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
+
+export const resendVerification = async (req: Request, res: Response) => {
+  const parsed = emailSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const user = await userRepository.findOneBy({ email: parsed.data.email })
+    if (user && !user.emailVerified) {
+      // A failed send must not answer differently from an unknown address
+      try {
+        await sendUserVerificationEmail(user)
+      } catch (error) {
+        console.error('Error sending verification email:', error)
+      }
+    }
+
+    return res.json({
+      message: 'If an unverified account exists for this email, a verification link has been sent',
+    })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Internal server error' })
+  }
+}
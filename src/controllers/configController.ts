@@ -1,15 +1,23 @@
 import { Request, Response } from 'express'
 import { z } from 'zod'
 import { AppDataSource } from '../data-source'
+import { AuditTargetType } from '../entities/AuditEvent'
 import { Configuration } from '../entities/Configuration'
-import { LLMProvider } from '../entities/KnowledgeBase'
+import {
+  EmbeddingProvider,
+  LLMProvider,
+  NoMatchPolicy,
+  RetrievalMode,
+} from '../entities/KnowledgeBase'
+import { auditSnapshot, recordAuditEvent } from '../services/auditService'
 import { invalidateDefaultAIConfigCache } from '../services/configService'
+import { resolveEmbeddingSpec } from '../services/embeddingsProvider'
 
 const configRepository = AppDataSource.getRepository(Configuration)
 
 const DEFAULT_CONFIG_KEY = 'default'
 
-const aiConfigSchema = z.object({
+const llmSettingsShape = {
   model: z.string().trim().optional().nullable(),
   llmProvider: z.nativeEnum(LLMProvider).optional(),
   temperature: z.coerce
@@ -24,6 +32,26 @@ const aiConfigSchema = z.object({
   frequencyPenalty: z.coerce.number().min(-2).max(2).optional().nullable(),
   presencePenalty: z.coerce.number().min(-2).max(2).optional().nullable(),
   stopSequences: z.array(z.string()).optional().nullable(),
+}
+
+/**
+ * LLM settings a knowledge base or license may override, with the same limits as the
+ * AI configuration.
+ */
+export const llmOverridesSchema = z.object(llmSettingsShape).strict()
+
+const aiConfigSchema = z.object({
+  ...llmSettingsShape,
+  // Failover order when the answering LLM is unavailable
+  fallbackLlms: z.array(llmOverridesSchema).max(5).optional().nullable(),
+  // Defaults for knowledge bases created afterwards
+  embeddingProvider: z.nativeEnum(EmbeddingProvider).optional().nullable(),
+  embeddingModel: z.string().trim().min(1).optional().nullable(),
+  embeddingDimension: z.coerce.number().int().positive().max(16000).optional().nullable(),
+  retrievalMode: z.nativeEnum(RetrievalMode).optional(),
+  // Used by knowledge bases that don't set their own
+  minScore: z.coerce.number().min(0).max(1).optional().nullable(),
+  noMatchPolicy: z.nativeEnum(NoMatchPolicy).optional(),
 })
 
 export const getAIConfig = async (req: Request, res: Response) => {
@@ -50,13 +78,33 @@ export const updateAIConfig = async (req: Request, res: Response) => {
     }
 
     let config = await configRepository.findOne({ where: { key: DEFAULT_CONFIG_KEY } })
+    const before = auditSnapshot(config)
     if (!config) {
       config = configRepository.create({ key: DEFAULT_CONFIG_KEY, llmProvider: LLMProvider.OPENAI })
     }
 
     Object.assign(config, parsed.data)
+    if (config.embeddingProvider || config.embeddingModel) {
+      try {
+        resolveEmbeddingSpec({
+          provider: config.embeddingProvider,
+          model: config.embeddingModel,
+          dimension: config.embeddingDimension,
+        })
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : 'Invalid embedding settings'
+        return res.status(400).json({ message: msg })
+      }
+    }
     await configRepository.save(config)
     invalidateDefaultAIConfigCache()
+    await recordAuditEvent(req.user, {
+      action: 'ai_config.update',
+      targetType: AuditTargetType.AI_CONFIG,
+      targetId: config.id,
+      before,
+      after: config,
+    })
     return res.json(config)
   } catch (error) {
     console.error(error)
@@ -0,0 +1,182 @@
+import { Request, Response } from 'express'
+import type { FindOptionsOrder } from 'typeorm'
+import { z } from 'zod'
+
+import { AppDataSource } from '../data-source'
+import { Conversation } from '../entities/Conversation'
+import { License } from '../entities/License'
+import { UserRole } from '../entities/User'
+import { buildMeta, parsePaginationQuery, pickSort } from '../utils/pagination'
+import { isLicenseValid } from './licenseController'
+
+const conversationRepository = AppDataSource.getRepository(Conversation)
+const licenseRepository = AppDataSource.getRepository(License)
+
+const createConversationSchema = z.object({
+  licenseKey: z.string().trim().min(1),
+  title: z.string().trim().min(1).max(200).optional().nullable(),
+  kbId: z.string().uuid().optional().nullable(),
+})
+
+const renameConversationSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+})
+
+/**
+ * Loads a conversation the current user may access (owner, or any thread for admins).
+ * Sends the error response itself and returns null when access is denied.
+ */
+const findAccessibleConversation = async (
+  req: Request<{ id: string }>,
+  res: Response,
+  withMessages = false,
+): Promise<Conversation | null> => {
+  const user = req.user
+  if (!user) {
+    res.status(401).json({ message: 'Unauthorized' })
+    return null
+  }
+
+  const conversation = await conversationRepository.findOne({
+    where: { id: req.params.id },
+    relations: withMessages ? ['messages'] : [],
+    order: withMessages ? { messages: { createdAt: 'ASC' } } : undefined,
+  })
+  if (!conversation) {
+    res.status(404).json({ message: 'Conversation not found' })
+    return null
+  }
+  if (user.role !== UserRole.ADMIN && conversation.userId !== user.userId) {
+    res.status(403).json({ message: 'Forbidden access to this conversation' })
+    return null
+  }
+  return conversation
+}
+
+export const createConversation = async (req: Request, res: Response) => {
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  const parsed = createConversationSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+  const { licenseKey, title, kbId } = parsed.data
+
+  try {
+    const license = await licenseRepository.findOne({
+      where: { key: licenseKey },
+      relations: ['user', 'knowledgeBases'],
+    })
+    if (!license) return res.status(404).json({ message: 'License not found' })
+    if (license.user.id !== user.userId)
+      return res.status(403).json({ message: 'Forbidden access to this license' })
+    if (!isLicenseValid(license)) return res.status(403).json({ message: 'License is not valid' })
+
+    if (kbId && !license.knowledgeBases.some(kb => kb.id === kbId)) {
+      return res.status(403).json({ message: 'Knowledge base not attached to this license' })
+    }
+
+    const conversation = conversationRepository.create({
+      title: title ?? null,
+      licenseId: license.id,
+      userId: user.userId,
+      kbId: kbId ?? null,
+    })
+    await conversationRepository.save(conversation)
+
+    return res.status(201).json(conversation)
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error creating conversation' })
+  }
+}
+
+export const listConversations = async (req: Request, res: Response) => {
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  try {
+    const parsed = parsePaginationQuery(req.query, { defaultSortDir: 'DESC' })
+    if (!parsed.ok) {
+      return res
+        .status(400)
+        .json({ message: 'Invalid pagination params', issues: parsed.error.format() })
+    }
+
+    const { sortBy, sortDir } = pickSort(
+      parsed.sortBy,
+      parsed.sortDir,
+      ['createdAt', 'updatedAt', 'title'] as const,
+      'updatedAt',
+    )
+
+    const order = { [sortBy]: sortDir } as FindOptionsOrder<Conversation>
+    const [items, totalItems] = await conversationRepository.findAndCount({
+      where: { userId: user.userId },
+      skip: parsed.skip,
+      take: parsed.take,
+      order,
+    })
+
+    return res.json({
+      items,
+      meta: buildMeta({
+        page: parsed.page,
+        pageSize: parsed.pageSize,
+        totalItems,
+        sortBy,
+        sortDir,
+      }),
+    })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error listing conversations' })
+  }
+}
+
+export const getConversation = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const conversation = await findAccessibleConversation(req, res, true)
+    if (!conversation) return
+
+    return res.json(conversation)
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error fetching conversation' })
+  }
+}
+
+export const renameConversation = async (req: Request<{ id: string }>, res: Response) => {
+  const parsed = renameConversationSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const conversation = await findAccessibleConversation(req, res)
+    if (!conversation) return
+
+    conversation.title = parsed.data.title
+    await conversationRepository.save(conversation)
+
+    return res.json(conversation)
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error renaming conversation' })
+  }
+}
+
+export const deleteConversation = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const conversation = await findAccessibleConversation(req, res)
+    if (!conversation) return
+
+    await conversationRepository.remove(conversation)
+
+    return res.json({ message: 'Conversation deleted successfully', conversationId: req.params.id })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error deleting conversation' })
+  }
+}
@@ -0,0 +1,147 @@
+import { Request, Response } from 'express'
+import type { FindOptionsOrder, FindOptionsWhere } from 'typeorm'
+
+import { AppDataSource } from '../data-source'
+import { AuditTargetType } from '../entities/AuditEvent'
+import { IngestionJob } from '../entities/IngestionJob'
+import { recordAuditEvent } from '../services/auditService'
+import {
+  cancelIngestionJob,
+  countItemsByStatus,
+  getJobStatus,
+  retryIngestionJob,
+} from '../services/ingestionService'
+import { buildMeta, parsePaginationQuery, pickSort } from '../utils/pagination'
+
+const jobRepository = AppDataSource.getRepository(IngestionJob)
+
+const toJobResponse = (job: IngestionJob) => ({
+  ...job,
+  status: getJobStatus(job),
+  counts: countItemsByStatus(job.items ?? []),
+})
+
+// Status and item counts are what retry and cancel change
+const auditJobState = (job: IngestionJob) => ({
+  status: getJobStatus(job),
+  counts: countItemsByStatus(job.items ?? []),
+})
+
+const findJob = (id: string) =>
+  jobRepository.findOne({
+    where: { id },
+    relations: ['items'],
+    order: { items: { createdAt: 'ASC' } },
+  })
+
+export const listJobs = async (req: Request, res: Response) => {
+  try {
+    const parsed = parsePaginationQuery(req.query, { defaultSortDir: 'DESC' })
+    if (!parsed.ok) {
+      return res
+        .status(400)
+        .json({ message: 'Invalid pagination params', issues: parsed.error.format() })
+    }
+
+    const { sortBy, sortDir } = pickSort(
+      parsed.sortBy,
+      parsed.sortDir,
+      ['createdAt', 'updatedAt'] as const,
+      'createdAt',
+    )
+
+    const where: FindOptionsWhere<IngestionJob> = {}
+    if (typeof req.query.kbId === 'string' && req.query.kbId) {
+      where.knowledgeBaseId = req.query.kbId
+    }
+
+    const order = { [sortBy]: sortDir } as FindOptionsOrder<IngestionJob>
+    const [items, totalItems] = await jobRepository.findAndCount({
+      where,
+      relations: ['items'],
+      skip: parsed.skip,
+      take: parsed.take,
+      order,
+    })
+
+    return res.json({
+      items: items.map(toJobResponse),
+      meta: buildMeta({
+        page: parsed.page,
+        pageSize: parsed.pageSize,
+        totalItems,
+        sortBy,
+        sortDir,
+      }),
+    })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error listing ingestion jobs' })
+  }
+}
+
+export const getJob = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await findJob(req.params.id)
+    if (!job) return res.status(404).json({ message: 'Ingestion job not found' })
+
+    return res.json(toJobResponse(job))
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error fetching ingestion job' })
+  }
+}
+
+export const retryJob = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await findJob(req.params.id)
+    if (!job) return res.status(404).json({ message: 'Ingestion job not found' })
+
+    const before = auditJobState(job)
+    const requeued = await retryIngestionJob(job)
+    if (requeued === 0) {
+      return res.status(400).json({ message: 'No failed or cancelled documents to retry' })
+    }
+
+    const updated = await findJob(job.id)
+    await recordAuditEvent(req.user, {
+      action: 'ingestion_job.retry',
+      targetType: AuditTargetType.INGESTION_JOB,
+      targetId: job.id,
+      before,
+      after: auditJobState(updated ?? job),
+    })
+    return res.status(202).json(toJobResponse(updated ?? job))
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error retrying ingestion job' })
+  }
+}
+
+export const cancelJob = async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const job = await findJob(req.params.id)
+    if (!job) return res.status(404).json({ message: 'Ingestion job not found' })
+
+    const status = getJobStatus(job)
+    if (status !== 'queued' && status !== 'running') {
+      return res.status(400).json({ message: `Ingestion job is already ${status}` })
+    }
+
+    const before = auditJobState(job)
+    await cancelIngestionJob(job)
+
+    const updated = await findJob(job.id)
+    await recordAuditEvent(req.user, {
+      action: 'ingestion_job.cancel',
+      targetType: AuditTargetType.INGESTION_JOB,
+      targetId: job.id,
+      before,
+      after: auditJobState(updated ?? job),
+    })
+    return res.json(toJobResponse(updated ?? job))
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error cancelling ingestion job' })
+  }
+}
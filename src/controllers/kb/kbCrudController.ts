@@ -1,23 +1,163 @@
-import fs from 'fs'
 import { Request, Response } from 'express'
-
+import { z } from 'zod'
+
+import {
+  ChunkingStrategy,
+  EmbeddingProvider,
+  NoMatchPolicy,
+  QueryExpansionStrategy,
+  RerankerType,
+  RetrievalMode,
+} from '../../entities/KnowledgeBase'
+import { AuditTargetType } from '../../entities/AuditEvent'
+import { IngestionJobType } from '../../entities/IngestionJob'
+import { auditSnapshot, recordAuditEvent } from '../../services/auditService'
+import {
+  getKnowledgeBaseEmbeddingSpec,
+  isSameEmbeddingSpec,
+  resolveDefaultEmbeddingSpec,
+  resolveEmbeddingSpec,
+} from '../../services/embeddingsProvider'
+import { getStoredFilePaths } from '../../services/documentVersionService'
+import { enqueueIngestionJob } from '../../services/ingestionService'
+import { getChunkingSettings } from '../../services/rag/ragChunking'
 import { ragService } from '../../services/ragService'
 import { KBOrder } from '../../types/kb'
+import { llmOverridesSchema } from '../configController'
+import { deleteStoredFiles } from '../../utils/documentFiles'
 import { buildMeta, parsePaginationQuery, pickSort } from '../../utils/pagination'
 import { kbRepository, documentRepository, licenseRepository } from './kbRepositories'
 
+const embeddingSettingsSchema = z.object({
+  embeddingProvider: z.nativeEnum(EmbeddingProvider).optional().nullable(),
+  embeddingModel: z.string().trim().min(1).optional().nullable(),
+  embeddingDimension: z.coerce.number().int().positive().max(16000).optional().nullable(),
+})
+
+const retrievalModeSchema = z.nativeEnum(RetrievalMode).optional().nullable()
+
+const ocrEnabledSchema = z.boolean().optional()
+
+const chunkingSettingsSchema = z.object({
+  chunkingStrategy: z.nativeEnum(ChunkingStrategy).optional(),
+  chunkSize: z.coerce.number().int().min(100).max(8000).optional(),
+  chunkOverlap: z.coerce.number().int().min(0).max(4000).optional(),
+  chunkSeparators: z.array(z.string().min(1)).min(1).max(20).optional().nullable(),
+})
+
+const retrievalSettingsSchema = z.object({
+  topK: z.coerce.number().int().min(1).max(50).optional().nullable(),
+  minScore: z.coerce.number().min(0).max(1).optional().nullable(),
+  maxContextChars: z.coerce.number().int().min(500).max(200000).optional().nullable(),
+  noMatchPolicy: z.nativeEnum(NoMatchPolicy).optional().nullable(),
+  noMatchMessage: z.string().trim().min(1).max(2000).optional().nullable(),
+  reranker: z.nativeEnum(RerankerType).optional().nullable(),
+  queryExpansion: z
+    .array(z.nativeEnum(QueryExpansionStrategy))
+    .max(3)
+    .transform(strategies => Array.from(new Set(strategies)))
+    .optional()
+    .nullable(),
+  llmOverrides: llmOverridesSchema.optional().nullable(),
+})
+
+/**
+ * Validates the chunking and retrieval settings of a create/update body.
+ * Returns the error response body when invalid.
+ */
+const parseKbTuning = (body: unknown) => {
+  const chunking = chunkingSettingsSchema.safeParse(body)
+  if (!chunking.success) {
+    return {
+      error: { message: 'Invalid chunking settings', issues: chunking.error.format() },
+    } as const
+  }
+  const retrieval = retrievalSettingsSchema.safeParse(body)
+  if (!retrieval.success) {
+    return {
+      error: { message: 'Invalid retrieval settings', issues: retrieval.error.format() },
+    } as const
+  }
+  return { chunking: chunking.data, retrieval: retrieval.data } as const
+}
+
 export const createKnowledgeBase = async (req: Request, res: Response) => {
   const { name, description, documents, promptInstructions } = req.body
 
+  const retrievalMode = retrievalModeSchema.safeParse(req.body.retrievalMode)
+  if (!retrievalMode.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid retrievalMode', issues: retrievalMode.error.format() })
+  }
+
+  const ocrEnabled = ocrEnabledSchema.safeParse(req.body.ocrEnabled)
+  if (!ocrEnabled.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid ocrEnabled', issues: ocrEnabled.error.format() })
+  }
+
+  const embeddingSettings = embeddingSettingsSchema.safeParse(req.body)
+  if (!embeddingSettings.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid embedding settings', issues: embeddingSettings.error.format() })
+  }
+
+  const tuning = parseKbTuning(req.body)
+  if (tuning.error) return res.status(400).json(tuning.error)
+  const chunkSize = tuning.chunking.chunkSize ?? 1000
+  const chunkOverlap = tuning.chunking.chunkOverlap ?? Math.min(200, Math.floor(chunkSize / 5))
+  if (chunkOverlap >= chunkSize) {
+    return res.status(400).json({ message: 'chunkOverlap must be smaller than chunkSize' })
+  }
+
   try {
+    const { embeddingProvider, embeddingModel, embeddingDimension } = embeddingSettings.data
+    let embedding
+    try {
+      embedding = await resolveDefaultEmbeddingSpec({
+        provider: embeddingProvider,
+        model: embeddingModel,
+        dimension: embeddingDimension,
+      })
+    } catch (error: unknown) {
+      const msg = error instanceof Error ? error.message : 'Invalid embedding settings'
+      return res.status(400).json({ message: msg })
+    }
+
     const kb = kbRepository.create({
       name,
       description,
       documents,
       promptInstructions: promptInstructions || null,
+      embeddingProvider: embedding.provider,
+      embeddingModel: embedding.model,
+      embeddingDimension: embedding.dimension,
+      retrievalMode: retrievalMode.data ?? null,
+      ocrEnabled: ocrEnabled.data ?? false,
+      chunkingStrategy: tuning.chunking.chunkingStrategy ?? ChunkingStrategy.RECURSIVE,
+      chunkSize,
+      chunkOverlap,
+      chunkSeparators: tuning.chunking.chunkSeparators ?? null,
+      topK: tuning.retrieval.topK ?? null,
+      minScore: tuning.retrieval.minScore ?? null,
+      maxContextChars: tuning.retrieval.maxContextChars ?? null,
+      noMatchPolicy: tuning.retrieval.noMatchPolicy ?? null,
+      noMatchMessage: tuning.retrieval.noMatchMessage ?? null,
+      reranker: tuning.retrieval.reranker ?? null,
+      queryExpansion: tuning.retrieval.queryExpansion ?? null,
+      llmOverrides: tuning.retrieval.llmOverrides ?? null,
     })
 
     await kbRepository.save(kb)
+    await recordAuditEvent(req.user, {
+      action: 'knowledge_base.create',
+      targetType: AuditTargetType.KNOWLEDGE_BASE,
+      targetId: kb.id,
+      after: kb,
+    })
     return res.status(201).json(kb)
   } catch (error) {
     console.error(error)
@@ -49,6 +189,30 @@ export const updateKnowledgeBase = async (req: Request, res: Response) => {
   const { id } = req.params
   const { name, description, promptInstructions } = req.body
 
+  const retrievalMode = retrievalModeSchema.safeParse(req.body.retrievalMode)
+  if (!retrievalMode.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid retrievalMode', issues: retrievalMode.error.format() })
+  }
+
+  const ocrEnabled = ocrEnabledSchema.safeParse(req.body.ocrEnabled)
+  if (!ocrEnabled.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid ocrEnabled', issues: ocrEnabled.error.format() })
+  }
+
+  const embeddingSettings = embeddingSettingsSchema.safeParse(req.body)
+  if (!embeddingSettings.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid embedding settings', issues: embeddingSettings.error.format() })
+  }
+
+  const tuning = parseKbTuning(req.body)
+  if (tuning.error) return res.status(400).json(tuning.error)
+
   try {
     const kb = await kbRepository.findOne({
       where: { id },
@@ -59,18 +223,102 @@ export const updateKnowledgeBase = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Knowledge base not found' })
     }
 
+    const before = auditSnapshot(kb)
     if (name !== undefined) kb.name = name
     if (description !== undefined) kb.description = description
     if (promptInstructions !== undefined) kb.promptInstructions = promptInstructions || null
+    if (retrievalMode.data !== undefined) kb.retrievalMode = retrievalMode.data
+    if (ocrEnabled.data !== undefined) kb.ocrEnabled = ocrEnabled.data
+
+    const {
+      topK,
+      minScore,
+      maxContextChars,
+      noMatchPolicy,
+      noMatchMessage,
+      reranker,
+      queryExpansion,
+      llmOverrides,
+    } = tuning.retrieval
+    if (topK !== undefined) kb.topK = topK
+    if (minScore !== undefined) kb.minScore = minScore
+    if (maxContextChars !== undefined) kb.maxContextChars = maxContextChars
+    if (noMatchPolicy !== undefined) kb.noMatchPolicy = noMatchPolicy
+    if (noMatchMessage !== undefined) kb.noMatchMessage = noMatchMessage
+    if (reranker !== undefined) kb.reranker = reranker
+    if (queryExpansion !== undefined) kb.queryExpansion = queryExpansion
+    if (llmOverrides !== undefined) kb.llmOverrides = llmOverrides
+
+    // New chunk boundaries need new vectors: the KB is reindexed, and chunks whose text did
+    // not change keep their embeddings.
+    const previousChunking = JSON.stringify(getChunkingSettings(kb))
+    const { chunkingStrategy, chunkSize, chunkOverlap, chunkSeparators } = tuning.chunking
+    if (chunkingStrategy !== undefined) kb.chunkingStrategy = chunkingStrategy
+    if (chunkSize !== undefined) kb.chunkSize = chunkSize
+    if (chunkOverlap !== undefined) kb.chunkOverlap = chunkOverlap
+    if (chunkSeparators !== undefined) kb.chunkSeparators = chunkSeparators
+    if (kb.chunkOverlap >= kb.chunkSize) {
+      return res.status(400).json({ message: 'chunkOverlap must be smaller than chunkSize' })
+    }
+    const chunkingChanged = JSON.stringify(getChunkingSettings(kb)) !== previousChunking
+
+    // Switching the embedding model invalidates every stored vector of the KB:
+    // they are dropped and all documents are re-embedded by an ingestion job.
+    const { embeddingProvider, embeddingModel, embeddingDimension } = embeddingSettings.data
+    const current = getKnowledgeBaseEmbeddingSpec(kb)
+    let embeddingChanged = false
+    if (embeddingProvider || embeddingModel || embeddingDimension) {
+      const provider = embeddingProvider ?? current.provider
+      const model = embeddingModel ?? (provider === current.provider ? current.model : null)
+      let next
+      try {
+        next = resolveEmbeddingSpec({
+          provider,
+          model,
+          dimension: embeddingDimension ?? (model === current.model ? current.dimension : null),
+        })
+      } catch (error: unknown) {
+        const msg = error instanceof Error ? error.message : 'Invalid embedding settings'
+        return res.status(400).json({ message: msg })
+      }
+      if (!isSameEmbeddingSpec(next, current)) {
+        kb.embeddingProvider = next.provider
+        kb.embeddingModel = next.model
+        kb.embeddingDimension = next.dimension
+        embeddingChanged = true
+      }
+    }
 
     await kbRepository.save(kb)
+    await recordAuditEvent(req.user, {
+      action: 'knowledge_base.update',
+      targetType: AuditTargetType.KNOWLEDGE_BASE,
+      targetId: kb.id,
+      before,
+      after: kb,
+    })
+
+    let reindexJobId: string | undefined
+    if (embeddingChanged || chunkingChanged) {
+      if (embeddingChanged) await ragService.deleteKnowledgeBase(kb.id)
+      const documents = await documentRepository.find({ where: { knowledgeBaseId: kb.id } })
+      if (documents.length > 0) {
+        const job = await enqueueIngestionJob({
+          type: IngestionJobType.REINDEX,
+          knowledgeBaseId: kb.id,
+          documents,
+          createdByUserId: req.user?.userId ?? null,
+        })
+        reindexJobId = job.id
+      }
+    }
 
     const updatedKb = await kbRepository.findOne({
       where: { id },
       relations: ['licenses', 'pdfDocuments'],
     })
 
-    return res.json(updatedKb)
+    return res.json(reindexJobId ? { ...updatedKb, reindexJobId } : updatedKb)
   } catch (error) {
     console.error(error)
     return res.status(500).json({ message: 'Error updating knowledge base' })
@@ -131,8 +379,16 @@ export const attachToLicense = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Knowledge Base or License not found' })
     }
 
+    const before = auditSnapshot(license)
     license.knowledgeBases.push(kb)
     await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.attach_knowledge_base',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
 
     return res.json({ message: 'Knowledge Base attached to License successfully' })
   } catch (error) {
@@ -141,7 +397,7 @@ export const attachToLicense = async (req: Request, res: Response) => {
   }
 }
 
-export const deleteKnowledgeBase = async (req: Request, res: Response) => {
+export const deleteKnowledgeBase = async (req: Request<{ id: string }>, res: Response) => {
   const { id: kbId } = req.params
 
   try {
@@ -156,15 +412,7 @@ export const deleteKnowledgeBase = async (req: Request, res: Response) => {
 
     const documents = await documentRepository.find({ where: { knowledgeBaseId: kbId } })
 
-    documents.forEach(doc => {
-      if (doc.filePath && fs.existsSync(doc.filePath)) {
-        try {
-          fs.unlinkSync(doc.filePath)
-        } catch (error) {
-          console.error(`Error deleting file ${doc.filePath}:`, error)
-        }
-      }
-    })
+    await deleteStoredFiles(await getStoredFilePaths(documents))
 
     if (kb.licenses && kb.licenses.length > 0) {
       for (const license of kb.licenses) {
@@ -180,7 +428,15 @@ export const deleteKnowledgeBase = async (req: Request, res: Response) => {
     }
 
     await ragService.deleteKnowledgeBase(kbId)
+    const before = auditSnapshot(kb)
     await kbRepository.remove(kb)
+    await recordAuditEvent(req.user, {
+      action: 'knowledge_base.delete',
+      targetType: AuditTargetType.KNOWLEDGE_BASE,
+      targetId: kbId,
+      before,
+      after: null,
+    })
 
     return res.json({
       message: 'Knowledge base deleted successfully',
@@ -1,113 +1,284 @@
-import fs from 'fs'
 import { Request, Response } from 'express'
-
+import { pipeline } from 'stream'
+import { In } from 'typeorm'
+import { z } from 'zod'
+
+import { AuditTargetType } from '../../entities/AuditEvent'
+import { DocumentFormat } from '../../entities/Document'
+import { License } from '../../entities/License'
+import { IngestionJobType } from '../../entities/IngestionJob'
+import { auditSnapshot, recordAuditEvent } from '../../services/auditService'
+import {
+  createDocumentVersion,
+  findDocumentVersion,
+  getStoredFilePaths,
+  listDocumentVersions,
+} from '../../services/documentVersionService'
+import {
+  MAX_LINK_TTL_SECONDS,
+  createDocumentLink,
+  verifyDocumentLink,
+} from '../../services/documentLinkService'
+import { findExtractor, getExtractor } from '../../services/extractors'
+import { enqueueIngestionJob } from '../../services/ingestionService'
 import { ragService } from '../../services/ragService'
+import { getFileStorage } from '../../services/storage'
 import { isLicenseValid } from '../licenseController'
-import { UploadedDocumentSummary, UploadError } from '../../types/kb'
-import { getPdfParse, resolveExistingPdfPath } from './kbDocumentUtils'
+import {
+  DocumentListItem,
+  DocumentOrder,
+  DuplicateUploadSummary,
+  RejectedUploadSummary,
+  UploadedDocumentSummary,
+} from '../../types/kb'
+import { deleteStoredFiles } from '../../utils/documentFiles'
+import { storeUploadedFile } from '../../utils/fileUpload'
+import { hashToken } from '../../utils/tokens'
+import { buildMeta, parsePaginationQuery, pickSort } from '../../utils/pagination'
 import { documentRepository, kbRepository, licenseRepository } from './kbRepositories'
 
+const versionParamSchema = z.coerce.number().int().positive()
+
+const uploadOptionsSchema = z.object({
+  // reject: refuse the whole upload; link: skip duplicates and point to the existing documents
+  onDuplicate: z.enum(['reject', 'link']).default('reject'),
+})
+
+const reindexOptionsSchema = z.object({
+  force: z
+    .union([z.boolean(), z.enum(['true', 'false'])])
+    .optional()
+    .transform(value => value === true || value === 'true'),
+})
+
+const documentLinkSchema = z.object({
+  page: z.coerce.number().int().positive().optional(),
+  // Lifetime in seconds; defaults to DOWNLOAD_URL_TTL_SECONDS
+  expiresIn: z.coerce.number().int().min(60).max(MAX_LINK_TTL_SECONDS).optional(),
+})
+
+type DocumentParams = { id: string; documentId: string }
+type DocumentVersionParams = DocumentParams & { version: string }
+
+type LicenseAccess = { ok: true; license: License } | { ok: false; message: string }
+
+/**
+ * Finds a valid license of the user that has the knowledge base attached.
+ */
+const findLicenseForKb = async (userId: string, kbId: string): Promise<LicenseAccess> => {
+  const licenses = await licenseRepository
+    .createQueryBuilder('license')
+    .leftJoinAndSelect('license.user', 'user')
+    .leftJoinAndSelect('license.knowledgeBases', 'knowledgeBases')
+    .where('user.id = :userId', { userId })
+    .getMany()
+  const valid = licenses.filter(isLicenseValid)
+  if (valid.length === 0) return { ok: false, message: 'License is not valid' }
+
+  const license = valid.find(l => l.knowledgeBases.some(kb => kb.id === kbId))
+  if (!license) return { ok: false, message: 'Knowledge base not attached to this license' }
+  return { ok: true, license }
+}
+
+const sendDocumentFile = async (
+  res: Response,
+  file: { fileName: string; filePath: string; format: DocumentFormat },
+) => {
+  const storage = getFileStorage()
+  if (!(await storage.exists(file.filePath))) {
+    return res.status(404).json({ message: 'File not found in storage' })
+  }
+
+  // Uploaded HTML is never rendered on our origin
+  const disposition = file.format === DocumentFormat.HTML ? 'attachment' : 'inline'
+  res.setHeader('Content-Type', getExtractor(file.format).contentType)
+  res.setHeader(
+    'Content-Disposition',
+    `${disposition}; filename="${encodeURIComponent(file.fileName)}"`,
+  )
+  const stream = await storage.createReadStream(file.filePath)
+  // A storage or network failure mid-download ends the response instead of crashing the process
+  pipeline(stream, res, error => {
+    // Clients closing the connection early are not errors
+    if (error && (error as NodeJS.ErrnoException).code !== 'ERR_STREAM_PREMATURE_CLOSE') {
+      console.error(`Error streaming document ${file.filePath}:`, error)
+    }
+  })
+}
+
+// PDF readers accept the header anywhere in the first KB; DOCX files are ZIP archives
+const PDF_HEADER = Buffer.from('%PDF-')
+const ZIP_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04])
+
+/**
+ * Why an uploaded file cannot be ingested, or null. Only cheap checks run in the request;
+ * parsing happens in the worker, which reports files without text on their job item.
+ */
+const findUnreadableReason = (file: Express.Multer.File): string | null => {
+  if (file.size === 0 || file.buffer.length === 0) return 'File is empty'
+  const format = findExtractor(file.mimetype, file.originalname)?.format ?? DocumentFormat.PDF
+  if (format === DocumentFormat.PDF && !file.buffer.subarray(0, 1024).includes(PDF_HEADER)) {
+    return 'File is not a valid PDF'
+  }
+  if (format === DocumentFormat.DOCX && !file.buffer.subarray(0, 4).equals(ZIP_HEADER)) {
+    return 'File is not a valid DOCX document'
+  }
+  return null
+}
+
 export const uploadPDF = async (req: Request, res: Response) => {
   const { id: kbId } = req.params
   const files = req.files as Express.Multer.File[]
 
   if (!files || files.length === 0) {
-    return res.status(400).json({ message: 'No PDF files uploaded' })
+    return res.status(400).json({ message: 'No files uploaded' })
   }
 
   if (!kbId) {
-    files.forEach(file => {
-      if (file && fs.existsSync(file.path)) fs.unlinkSync(file.path)
-    })
     return res.status(400).json({ message: 'Knowledge base ID is required' })
   }
 
+  const options = uploadOptionsSchema.safeParse(req.body ?? {})
+  if (!options.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid upload options', issues: options.error.format() })
+  }
+
+  // Files are only written to storage once accepted; removed again if the upload fails
+  const storedKeys: string[] = []
   try {
     const kb = await kbRepository.findOne({ where: { id: kbId } })
-    if (!kb) {
-      files.forEach(file => {
-        if (fs.existsSync(file.path)) fs.unlinkSync(file.path)
+    if (!kb) return res.status(404).json({ message: 'Knowledge base not found' })
+
+    const contentHashes = files.map(file => hashToken(file.buffer))
+    const existing = await documentRepository.find({
+      select: { id: true, fileName: true, contentHash: true },
+      where: { knowledgeBaseId: kb.id, contentHash: In([...new Set(contentHashes)]) },
+    })
+    const existingByHash = new Map(existing.map(doc => [doc.contentHash, doc]))
+
+    // Files already in the KB, or repeated within this upload, are duplicates
+    const newFiles: { file: Express.Multer.File; contentHash: string }[] = []
+    const duplicates: DuplicateUploadSummary[] = []
+    const firstInBatch = new Map<string, string>()
+    files.forEach((file, index) => {
+      const contentHash = contentHashes[index]
+      const match = existingByHash.get(contentHash)
+      const batchFileName = firstInBatch.get(contentHash)
+      if (match || batchFileName) {
+        duplicates.push({
+          fileName: file.originalname,
+          contentHash,
+          existingDocumentId: match?.id ?? null,
+          existingFileName: match?.fileName ?? batchFileName!,
+        })
+        return
+      }
+      firstInBatch.set(contentHash, file.originalname)
+      newFiles.push({ file, contentHash })
+    })
+
+    if (duplicates.length > 0 && options.data.onDuplicate === 'reject') {
+      return res.status(409).json({
+        message: `${duplicates.length} file(s) already exist in this knowledge base`,
+        duplicates,
       })
-      return res.status(404).json({ message: 'Knowledge base not found' })
     }
 
-    const uploadedDocuments: UploadedDocumentSummary[] = []
-    const errors: UploadError[] = []
-
-    for (const file of files) {
-      try {
-        const dataBuffer = fs.readFileSync(file.path)
-        const PDFParseClass = await getPdfParse()
-        const parser = new PDFParseClass({ data: dataBuffer })
-        const result = await parser.getText()
-        const textContent = result.text
-        const pageCount = result.pages?.length || 0
-
-        if (!textContent || textContent.trim().length === 0) {
-          fs.unlinkSync(file.path)
-          errors.push({
-            fileName: file.originalname,
-            error: 'PDF file appears to be empty or contains no extractable text',
-          })
-          continue
-        }
-
-        const document = documentRepository.create({
+    // Empty or malformed files are reported and skipped; the others are still queued
+    const rejected: RejectedUploadSummary[] = []
+    const readableFiles: typeof newFiles = []
+    for (const entry of newFiles) {
+      const error = findUnreadableReason(entry.file)
+      if (error) rejected.push({ fileName: entry.file.originalname, error })
+      else readableFiles.push(entry)
+    }
+    for (const { file } of readableFiles) storedKeys.push(await storeUploadedFile(file))
+
+    // Embedding happens in the ingestion worker; the request only records the files.
+    const documents = await documentRepository.save(
+      readableFiles.map(({ file, contentHash }, index) =>
+        documentRepository.create({
           fileName: file.originalname,
-          filePath: file.path,
+          filePath: storedKeys[index],
+          // The upload filter only lets through files with a registered extractor
+          format: findExtractor(file.mimetype, file.originalname)?.format ?? DocumentFormat.PDF,
+          contentHash,
           knowledgeBaseId: kbId,
           metadata: {
             fileSize: file.size,
-            pageCount: pageCount,
+            mimeType: file.mimetype,
             uploadedAt: new Date().toISOString(),
           },
-        })
-
-        await documentRepository.save(document)
-
-        await ragService.ingestDocument(kbId, textContent, {
-          fileName: file.originalname,
-          documentId: document.id,
-          pageCount: pageCount,
-          sourceUrl: `/knowledge-bases/${kbId}/documents/${document.id}/file`,
-        })
-
-        uploadedDocuments.push({
-          id: document.id,
-          fileName: document.fileName,
-          pageCount: pageCount,
-          createdAt: document.createdAt,
-        })
-      } catch (error: unknown) {
-        console.error(`Error processing file ${file.originalname}:`, error)
-        if (fs.existsSync(file.path)) fs.unlinkSync(file.path)
-        errors.push({
-          fileName: file.originalname,
-          error: error instanceof Error ? error.message : 'Unknown error processing file',
-        })
-      }
+        }),
+      ),
+    )
+
+    // Duplicates within the batch link to the document created for their first copy
+    const documentIdByHash = new Map(documents.map(doc => [doc.contentHash, doc.id]))
+    const linkedDuplicates = duplicates.map(duplicate => ({
+      ...duplicate,
+      existingDocumentId:
+        duplicate.existingDocumentId ?? documentIdByHash.get(duplicate.contentHash) ?? null,
+    }))
+
+    if (documents.length === 0 && rejected.length > 0) {
+      return res.status(400).json({
+        message: 'None of the files can be ingested',
+        rejected,
+        duplicates: linkedDuplicates,
+      })
+    }
+    if (documents.length === 0) {
+      return res.status(200).json({
+        message: 'All files already exist in this knowledge base',
+        jobId: null,
+        documents: [],
+        duplicates: linkedDuplicates,
+        rejected,
+      })
     }
 
-    if (uploadedDocuments.length === 0) {
-      return res.status(400).json({ message: 'No files were successfully uploaded', errors })
+    const job = await enqueueIngestionJob({
+      type: IngestionJobType.UPLOAD,
+      knowledgeBaseId: kbId,
+      documents,
+      createdByUserId: req.user?.userId ?? null,
+    })
+    for (const document of documents) {
+      await recordAuditEvent(req.user, {
+        action: 'document.upload',
+        targetType: AuditTargetType.DOCUMENT,
+        targetId: document.id,
+        after: document,
+      })
     }
 
-    return res.status(201).json({
-      message: `${uploadedDocuments.length} PDF file(s) uploaded and ingested successfully`,
+    const uploadedDocuments: UploadedDocumentSummary[] = documents.map(document => ({
+      id: document.id,
+      fileName: document.fileName,
+      format: document.format,
+      createdAt: document.createdAt,
+    }))
+
+    return res.status(202).json({
+      message: `${uploadedDocuments.length} file(s) queued for ingestion`,
+      jobId: job.id,
+      statusUrl: `/jobs/${job.id}`,
       documents: uploadedDocuments,
-      errors: errors.length > 0 ? errors : undefined,
+      duplicates: linkedDuplicates,
+      rejected,
     })
   } catch (error: unknown) {
-    console.error('Error uploading PDFs:', error)
-    files.forEach(file => {
-      if (fs.existsSync(file.path)) fs.unlinkSync(file.path)
-    })
+    console.error('Error uploading documents:', error)
+    await deleteStoredFiles(storedKeys)
     const msg = error instanceof Error ? error.message : 'Unknown error'
-    return res.status(500).json({ message: 'Error uploading PDFs: ' + msg })
+    return res.status(500).json({ message: 'Error uploading documents: ' + msg })
   }
 }
 
-export const deleteKnowledgeBaseDocument = async (req: Request, res: Response) => {
+export const deleteKnowledgeBaseDocument = async (req: Request<DocumentParams>, res: Response) => {
   const { id: kbId, documentId } = req.params
 
   try {
@@ -120,15 +291,17 @@ export const deleteKnowledgeBaseDocument = async (req: Request, res: Response) =
 
     await ragService.deleteDocument(kbId, documentId)
 
-    if (doc.filePath && fs.existsSync(doc.filePath)) {
-      try {
-        fs.unlinkSync(doc.filePath)
-      } catch (error) {
-        console.error(`Error deleting file ${doc.filePath}:`, error)
-      }
-    }
+    await deleteStoredFiles(await getStoredFilePaths([doc]))
 
+    const before = auditSnapshot(doc)
     await documentRepository.remove(doc)
+    await recordAuditEvent(req.user, {
+      action: 'document.delete',
+      targetType: AuditTargetType.DOCUMENT,
+      targetId: documentId,
+      before,
+      after: null,
+    })
     return res.json({ message: 'Document deleted successfully', documentId })
   } catch (error) {
     console.error('Error deleting knowledge base document:', error)
@@ -138,6 +311,12 @@ export const deleteKnowledgeBaseDocument = async (req: Request, res: Response) =
 
 export const reindexKnowledgeBase = async (req: Request, res: Response) => {
   const { id: kbId } = req.params
+  const options = reindexOptionsSchema.safeParse({ force: req.query.force ?? req.body?.force })
+  if (!options.success) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid reindex options', issues: options.error.format() })
+  }
 
   try {
     const kb = await kbRepository.findOne({ where: { id: kbId } })
@@ -147,63 +326,38 @@ export const reindexKnowledgeBase = async (req: Request, res: Response) => {
     if (documents.length === 0)
       return res.status(400).json({ message: 'No documents found for this knowledge base' })
 
-    await ragService.deleteKnowledgeBase(kbId)
-
-    const errors: Array<{ documentId: string; fileName: string; error: string }> = []
-    let reindexed = 0
-
-    for (const doc of documents) {
-      try {
-        const pdfPath = resolveExistingPdfPath(doc)
-        if (!pdfPath) {
-          errors.push({
-            documentId: doc.id,
-            fileName: doc.fileName,
-            error: 'File not found on disk',
-          })
-          continue
-        }
-
-        const dataBuffer = fs.readFileSync(pdfPath)
-        const PDFParseClass = await getPdfParse()
-        const parser = new PDFParseClass({ data: dataBuffer })
-        const result = await parser.getText()
-        const textContent = result?.text || ''
-        const pageCount = result?.pages?.length || 0
-
-        if (!textContent || textContent.trim().length === 0) {
-          errors.push({
-            documentId: doc.id,
-            fileName: doc.fileName,
-            error: 'No extractable text found in PDF (might be scanned/image-only PDF)',
-          })
-          continue
-        }
-
-        await ragService.ingestDocument(kbId, textContent, {
-          fileName: doc.fileName,
-          documentId: doc.id,
-          pageCount,
-          sourceUrl: `/knowledge-bases/${kbId}/documents/${doc.id}/file`,
-        })
+    // Existing vectors keep serving queries; each document's chunks are swapped atomically
+    // as the worker re-indexes it. Only vectors of documents that no longer exist are dropped.
+    await ragService.deleteOrphanedVectors(
+      kbId,
+      documents.map(doc => doc.id),
+    )
 
-        reindexed++
-      } catch (e: unknown) {
-        errors.push({
-          documentId: doc.id,
-          fileName: doc.fileName,
-          error: e instanceof Error ? e.message : 'Unknown error',
-        })
-      }
+    // Unchanged documents are skipped by the worker unless a full rebuild is requested
+    if (options.data.force) {
+      await documentRepository.update({ knowledgeBaseId: kb.id }, { indexFingerprint: null })
     }
 
-    return res.json({
-      message: 'Knowledge base reindex completed',
+    const job = await enqueueIngestionJob({
+      type: IngestionJobType.REINDEX,
+      knowledgeBaseId: kbId,
+      documents,
+      createdByUserId: req.user?.userId ?? null,
+    })
+    await recordAuditEvent(req.user, {
+      action: 'knowledge_base.reindex',
+      targetType: AuditTargetType.KNOWLEDGE_BASE,
+      targetId: kbId,
+      after: { force: options.data.force, jobId: job.id },
+    })
+
+    return res.status(202).json({
+      message: 'Knowledge base reindex queued',
       kbId,
+      force: options.data.force,
+      jobId: job.id,
+      statusUrl: `/jobs/${job.id}`,
       totalDocuments: documents.length,
-      reindexedDocuments: reindexed,
-      failedDocuments: errors.length,
-      errors: errors.length ? errors : undefined,
     })
   } catch (error) {
     console.error('Error reindexing knowledge base:', error)
@@ -211,40 +365,334 @@ export const reindexKnowledgeBase = async (req: Request, res: Response) => {
   }
 }
 
-export const downloadKnowledgeBaseDocument = async (req: Request, res: Response) => {
+export const downloadKnowledgeBaseDocument = async (
+  req: Request<DocumentParams>,
+  res: Response,
+) => {
+  const { id: kbId, documentId } = req.params
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: documentId, knowledgeBaseId: kbId },
+    })
+    if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
+
+    if (user.role !== 'ADMIN') {
+      const access = await findLicenseForKb(user.userId, kbId)
+      if (!access.ok) return res.status(403).json({ message: access.message })
+    }
+
+    return await sendDocumentFile(res, doc)
+  } catch (error) {
+    console.error('Error downloading knowledge base document:', error)
+    return res.status(500).json({ message: 'Error downloading document' })
+  }
+}
+
+/**
+ * Lists the documents of a knowledge base with signed download links. Admins get links
+ * that are not bound to a license.
+ */
+export const listKnowledgeBaseDocuments = async (req: Request<{ id: string }>, res: Response) => {
+  const { id: kbId } = req.params
+  const user = req.user
+  if (!user) return res.status(401).json({ message: 'Unauthorized' })
+
+  const parsed = parsePaginationQuery(req.query, { defaultSortDir: 'DESC' })
+  if (!parsed.ok) {
+    return res
+      .status(400)
+      .json({ message: 'Invalid pagination params', issues: parsed.error.format() })
+  }
+
+  try {
+    const kb = await kbRepository.findOneBy({ id: kbId })
+    if (!kb) return res.status(404).json({ message: 'Knowledge base not found' })
+
+    let licenseId: string | null = null
+    if (user.role !== 'ADMIN') {
+      const access = await findLicenseForKb(user.userId, kbId)
+      if (!access.ok) return res.status(403).json({ message: access.message })
+      licenseId = access.license.id
+    }
+
+    const { sortBy, sortDir } = pickSort(
+      parsed.sortBy,
+      parsed.sortDir,
+      ['createdAt', 'updatedAt', 'fileName'] as const,
+      'createdAt',
+    )
+    const order: DocumentOrder = { [sortBy]: sortDir }
+    const [documents, totalItems] = await documentRepository.findAndCount({
+      where: { knowledgeBaseId: kbId },
+      skip: parsed.skip,
+      take: parsed.take,
+      order,
+    })
+
+    const items: DocumentListItem[] = documents.map(doc => {
+      const link = createDocumentLink({ kbId, documentId: doc.id, licenseId })
+      return {
+        id: doc.id,
+        fileName: doc.fileName,
+        format: doc.format,
+        currentVersion: doc.currentVersion,
+        createdAt: doc.createdAt,
+        updatedAt: doc.updatedAt,
+        downloadUrl: link.url,
+        downloadUrlExpiresAt: link.expiresAt,
+      }
+    })
+
+    return res.json({
+      items,
+      meta: buildMeta({
+        page: parsed.page,
+        pageSize: parsed.pageSize,
+        totalItems,
+        sortBy,
+        sortDir,
+      }),
+    })
+  } catch (error) {
+    console.error('Error listing knowledge base documents:', error)
+    return res.status(500).json({ message: 'Error listing documents' })
+  }
+}
+
+/**
+ * Mints a signed, expiring download URL for the document, bound to the caller's license.
+ */
+export const createKnowledgeBaseDocumentLink = async (
+  req: Request<DocumentParams>,
+  res: Response,
+) => {
   const { id: kbId, documentId } = req.params
   const user = req.user
   if (!user) return res.status(401).json({ message: 'Unauthorized' })
 
+  const parsed = documentLinkSchema.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid link options', issues: parsed.error.format() })
+  }
+
   try {
     const doc = await documentRepository.findOne({
       where: { id: documentId, knowledgeBaseId: kbId },
     })
     if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
 
+    let licenseId: string | null = null
     if (user.role !== 'ADMIN') {
-      const license = await licenseRepository
-        .createQueryBuilder('license')
-        .leftJoinAndSelect('license.user', 'user')
-        .leftJoinAndSelect('license.knowledgeBases', 'knowledgeBases')
-        .where('user.id = :userId', { userId: user.userId })
-        .getOne()
+      const access = await findLicenseForKb(user.userId, kbId)
+      if (!access.ok) return res.status(403).json({ message: access.message })
+      licenseId = access.license.id
+    }
+
+    const { page, expiresIn } = parsed.data
+    return res
+      .status(201)
+      .json(createDocumentLink({ kbId, documentId, licenseId }, { page, ttlSeconds: expiresIn }))
+  } catch (error) {
+    console.error('Error creating document link:', error)
+    return res.status(500).json({ message: 'Error creating document link' })
+  }
+}
+
+/**
+ * Serves a file through a signed link (no bearer token). The license a link is bound to
+ * must still be valid and have the knowledge base attached.
+ */
+export const downloadSignedKnowledgeBaseDocument = async (
+  req: Request<DocumentParams>,
+  res: Response,
+) => {
+  const { id: kbId, documentId } = req.params
+  const link = verifyDocumentLink(kbId, documentId, req.query)
+  if (!link) return res.status(403).json({ message: 'Download link is invalid or has expired' })
+
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: documentId, knowledgeBaseId: kbId },
+    })
+    if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
+
+    if (link.licenseId) {
+      const license = await licenseRepository.findOne({
+        where: { id: link.licenseId },
+        relations: ['knowledgeBases'],
+      })
       if (!license || !isLicenseValid(license))
         return res.status(403).json({ message: 'License is not valid' })
-      const hasKb =
-        Array.isArray(license.knowledgeBases) && license.knowledgeBases.some(kb => kb.id === kbId)
-      if (!hasKb)
+      if (!license.knowledgeBases.some(kb => kb.id === kbId))
         return res.status(403).json({ message: 'Knowledge base not attached to this license' })
     }
 
-    const pdfPath = resolveExistingPdfPath(doc)
-    if (!pdfPath) return res.status(404).json({ message: 'File not found on disk' })
-
-    res.setHeader('Content-Type', 'application/pdf')
-    res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(doc.fileName)}"`)
-    return fs.createReadStream(pdfPath).pipe(res)
+    return await sendDocumentFile(res, doc)
   } catch (error) {
     console.error('Error downloading knowledge base document:', error)
     return res.status(500).json({ message: 'Error downloading document' })
   }
 }
+
+export const replaceKnowledgeBaseDocument = async (req: Request<DocumentParams>, res: Response) => {
+  const { id: kbId, documentId } = req.params
+  const file = req.file
+  if (!file) return res.status(400).json({ message: 'No file uploaded' })
+
+  let storedKey: string | null = null
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: documentId, knowledgeBaseId: kbId },
+    })
+    if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
+
+    const contentHash = hashToken(file.buffer)
+    if (contentHash === doc.contentHash) {
+      return res.status(409).json({ message: 'File is identical to the current version' })
+    }
+    const unreadable = findUnreadableReason(file)
+    if (unreadable) return res.status(400).json({ message: unreadable })
+
+    storedKey = await storeUploadedFile(file)
+    const version = await createDocumentVersion(
+      doc,
+      file,
+      storedKey,
+      contentHash,
+      req.user?.userId ?? null,
+    )
+    const job = await enqueueIngestionJob({
+      type: IngestionJobType.REPLACE,
+      knowledgeBaseId: kbId,
+      documents: [doc],
+      createdByUserId: req.user?.userId ?? null,
+      documentVersion: version,
+    })
+    // The new version only becomes current once indexed, so the queued job is recorded
+    await recordAuditEvent(req.user, {
+      action: 'document.replace',
+      targetType: AuditTargetType.DOCUMENT,
+      targetId: documentId,
+      before: { version: doc.currentVersion, contentHash: doc.contentHash },
+      after: { version: version.version, contentHash, jobId: job.id },
+    })
+
+    return res.status(202).json({
+      message: `Version ${version.version} queued; it becomes current once indexed`,
+      documentId,
+      version: version.version,
+      jobId: job.id,
+      statusUrl: `/jobs/${job.id}`,
+    })
+  } catch (error: unknown) {
+    console.error('Error replacing knowledge base document:', error)
+    if (storedKey) await deleteStoredFiles([storedKey])
+    return res.status(500).json({ message: 'Error replacing document' })
+  }
+}
+
+export const listKnowledgeBaseDocumentVersions = async (
+  req: Request<DocumentParams>,
+  res: Response,
+) => {
+  const { id: kbId, documentId } = req.params
+
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: documentId, knowledgeBaseId: kbId },
+    })
+    if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
+
+    const versions = await listDocumentVersions(doc)
+    return res.json({
+      documentId,
+      currentVersion: doc.currentVersion,
+      versions: versions.map(version => ({
+        ...version,
+        isCurrent: version.version === doc.currentVersion,
+      })),
+    })
+  } catch (error) {
+    console.error('Error listing document versions:', error)
+    return res.status(500).json({ message: 'Error listing document versions' })
+  }
+}
+
+export const rollbackKnowledgeBaseDocument = async (
+  req: Request<DocumentVersionParams>,
+  res: Response,
+) => {
+  const { id: kbId, documentId } = req.params
+  const versionNumber = versionParamSchema.safeParse(req.params.version)
+  if (!versionNumber.success) return res.status(400).json({ message: 'Invalid version' })
+
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: documentId, knowledgeBaseId: kbId },
+    })
+    if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
+
+    const version = await findDocumentVersion(doc, versionNumber.data)
+    if (!version) return res.status(404).json({ message: 'Version not found' })
+    if (version.version === doc.currentVersion) {
+      return res.status(400).json({ message: 'Version is already current' })
+    }
+    if (!(await getFileStorage().exists(version.filePath))) {
+      return res.status(409).json({ message: 'File of this version is no longer in storage' })
+    }
+
+    // The stored vectors belong to the current version, so the old file is re-indexed
+    const job = await enqueueIngestionJob({
+      type: IngestionJobType.ROLLBACK,
+      knowledgeBaseId: kbId,
+      documents: [doc],
+      createdByUserId: req.user?.userId ?? null,
+      documentVersion: version,
+    })
+    await recordAuditEvent(req.user, {
+      action: 'document.rollback',
+      targetType: AuditTargetType.DOCUMENT,
+      targetId: documentId,
+      before: { version: doc.currentVersion },
+      after: { version: version.version, jobId: job.id },
+    })
+
+    return res.status(202).json({
+      message: `Rollback to version ${version.version} queued; it becomes current once indexed`,
+      documentId,
+      version: version.version,
+      jobId: job.id,
+      statusUrl: `/jobs/${job.id}`,
+    })
+  } catch (error) {
+    console.error('Error rolling back document:', error)
+    return res.status(500).json({ message: 'Error rolling back document' })
+  }
+}
+
+export const downloadKnowledgeBaseDocumentVersion = async (
+  req: Request<DocumentVersionParams>,
+  res: Response,
+) => {
+  const { id: kbId, documentId } = req.params
+  const versionNumber = versionParamSchema.safeParse(req.params.version)
+  if (!versionNumber.success) return res.status(400).json({ message: 'Invalid version' })
+
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: documentId, knowledgeBaseId: kbId },
+    })
+    if (!doc) return res.status(404).json({ message: 'Document not found in this knowledge base' })
+
+    const version = await findDocumentVersion(doc, versionNumber.data)
+    if (!version) return res.status(404).json({ message: 'Version not found' })
+
+    return await sendDocumentFile(res, version)
+  } catch (error) {
+    console.error('Error downloading document version:', error)
+    return res.status(500).json({ message: 'Error downloading document version' })
+  }
+}
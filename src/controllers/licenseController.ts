@@ -5,11 +5,15 @@ import type { FindOptionsOrder } from 'typeorm'
 import { z } from 'zod'
 
 import { AppDataSource } from '../data-source'
+import { AuditTargetType } from '../entities/AuditEvent'
 import { KnowledgeBase } from '../entities/KnowledgeBase'
 import { License } from '../entities/License'
 import { User } from '../entities/User'
+import { auditSnapshot, recordAuditEvent } from '../services/auditService'
+import { isKnownRateLimitTier } from '../services/rateLimit'
 import { buildMeta, parsePaginationQuery, pickSort } from '../utils/pagination'
 import { sanitizeUser } from '../utils/userUtils'
+import { llmOverridesSchema } from './configController'
 
 const licenseRepository = AppDataSource.getRepository(License)
 const userRepository = AppDataSource.getRepository(User)
@@ -74,6 +78,12 @@ export const createLicense = async (req: Request, res: Response) => {
     if (!savedLicense) {
       return res.status(500).json({ message: 'Error retrieving created license' })
     }
+    await recordAuditEvent(req.user, {
+      action: 'license.create',
+      targetType: AuditTargetType.LICENSE,
+      targetId: savedLicense.id,
+      after: savedLicense,
+    })
 
     return res.status(201).json({
       ...savedLicense,
@@ -161,8 +171,16 @@ export const setLicenseKnowledgeBases = async (req: Request, res: Response) => {
         .json({ message: 'Some knowledge bases not found', missingKbIds: missing })
     }
 
+    const before = auditSnapshot(license)
     license.knowledgeBases = kbs
     await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.set_knowledge_bases',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
 
     const updated = await licenseRepository.findOne({
       where: { id: license.id },
@@ -182,6 +200,98 @@ export const setLicenseKnowledgeBases = async (req: Request, res: Response) => {
   }
 }
 
+const setLicenseQuotasSchema = z.object({
+  monthlyQuestionQuota: z.number().int().nonnegative().nullable().optional(),
+  monthlyTokenQuota: z.number().int().nonnegative().nullable().optional(),
+  rateLimitTier: z
+    .string()
+    .trim()
+    .refine(isKnownRateLimitTier, 'Unknown rate limit tier (see RATE_LIMIT_TIERS)')
+    .nullable()
+    .optional(),
+})
+
+export const setLicenseQuotas = async (req: Request<{ id: string }>, res: Response) => {
+  const { id } = req.params
+
+  const parsed = setLicenseQuotasSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const license = await licenseRepository.findOne({
+      where: { id },
+      relations: ['user', 'knowledgeBases'],
+    })
+    if (!license) return res.status(404).json({ message: 'License not found' })
+
+    const before = auditSnapshot(license)
+    const { monthlyQuestionQuota, monthlyTokenQuota, rateLimitTier } = parsed.data
+    if (monthlyQuestionQuota !== undefined) license.monthlyQuestionQuota = monthlyQuestionQuota
+    if (monthlyTokenQuota !== undefined) license.monthlyTokenQuota = monthlyTokenQuota
+    if (rateLimitTier !== undefined) license.rateLimitTier = rateLimitTier
+    await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.set_quotas',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
+
+    return res.json({
+      ...license,
+      user: sanitizeUser(license.user),
+      isValid: isLicenseValid(license),
+    })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error updating license quotas' })
+  }
+}
+
+const setLicenseLlmOverridesSchema = z.object({
+  llmOverrides: llmOverridesSchema.nullable(),
+})
+
+export const setLicenseLlmOverrides = async (req: Request<{ id: string }>, res: Response) => {
+  const { id } = req.params
+
+  const parsed = setLicenseLlmOverridesSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid request body', issues: parsed.error.format() })
+  }
+
+  try {
+    const license = await licenseRepository.findOne({
+      where: { id },
+      relations: ['user', 'knowledgeBases'],
+    })
+    if (!license) return res.status(404).json({ message: 'License not found' })
+
+    const before = auditSnapshot(license)
+    license.llmOverrides = parsed.data.llmOverrides
+    await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.set_llm_overrides',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
+
+    return res.json({
+      ...license,
+      user: sanitizeUser(license.user),
+      isValid: isLicenseValid(license),
+    })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error updating license LLM overrides' })
+  }
+}
+
 export const updateLicenseValidity = async (req: Request, res: Response) => {
   const { id } = req.params
   const { validityPeriodDays } = req.body
@@ -196,6 +306,7 @@ export const updateLicenseValidity = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'License not found' })
     }
 
+    const before = auditSnapshot(license)
     if (validityPeriodDays === null || validityPeriodDays === undefined) {
       // Allow clearing expiration (never expires)
       license.expiresAt = null
@@ -214,6 +325,13 @@ export const updateLicenseValidity = async (req: Request, res: Response) => {
     }
 
     await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.update_validity',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
 
     const updatedLicense = await licenseRepository.findOne({
       where: { id: license.id },
@@ -244,8 +362,16 @@ export const deactivateLicense = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'License not found' })
     }
 
+    const before = auditSnapshot(license)
     license.isActive = false
     await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.deactivate',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
 
     // Reload with relations and sanitize user
     const updatedLicense = await licenseRepository.findOne({
@@ -277,8 +403,16 @@ export const activateLicense = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'License not found' })
     }
 
+    const before = auditSnapshot(license)
     license.isActive = true
     await licenseRepository.save(license)
+    await recordAuditEvent(req.user, {
+      action: 'license.activate',
+      targetType: AuditTargetType.LICENSE,
+      targetId: license.id,
+      before,
+      after: license,
+    })
 
     // Reload with relations and sanitize user
     const updatedLicense = await licenseRepository.findOne({
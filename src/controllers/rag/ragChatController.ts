@@ -1,24 +1,86 @@
 import { Request, Response } from 'express'
 
 import { AppDataSource } from '../../data-source'
+import { Conversation } from '../../entities/Conversation'
 import { KnowledgeBase } from '../../entities/KnowledgeBase'
 import { License } from '../../entities/License'
+import { UsageEventType } from '../../entities/UsageEvent'
+import { appendExchange, loadConversationHistory } from '../../services/conversationService'
+import { signSourceLinks } from '../../services/documentLinkService'
 import { ragService } from '../../services/ragService'
+import { checkLicenseQuota, recordUsageEvent } from '../../services/usageService'
 import { GLOBAL_FALLBACK_PROMPT_INSTRUCTIONS } from '../../services/rag/globalPrompt'
+import type { ChatAnswerMode, RagAnswer, RagQueryOptions } from '../../types/rag'
+import type { TokenUsage } from '../../types/usage'
+import { openEventStream, sendEvent, startHeartbeat, wantsEventStream } from '../../utils/sse'
 import { isLicenseValid } from '../licenseController'
 
 const licenseRepository = AppDataSource.getRepository(License)
 const kbRepository = AppDataSource.getRepository(KnowledgeBase)
+const conversationRepository = AppDataSource.getRepository(Conversation)
+
+type ChatResult = RagAnswer & {
+  conversationId?: string
+  messageId?: string
+  llm?: { provider: string; model: string | null; fallback: boolean }
+}
+type ChatRun = (options: RagQueryOptions) => Promise<ChatResult>
+
+const toClientErrorMessage = (error: unknown): string =>
+  error instanceof Error && error.message.includes('API_KEY')
+    ? error.message
+    : 'Error processing query'
+
+/**
+ * Streams the answer as Server-Sent Events:
+ * - `token`: `{ delta }` for every text delta
+ * - `done`: `{ answer, sources, mode, kbIds }` with the full Markdown and its citations
+ *   (`mode` is the path actually taken, e.g. `global` when the KB had no vectors, and
+ *   `retrieval` tells whether chunks cleared the relevance threshold; `llm` names the
+ *   provider/model that answered)
+ *   (plus `conversationId`/`messageId` when the exchange was persisted to a thread)
+ * - `error`: `{ message }` if generation fails after the stream was opened
+ */
+const streamAnswer = async (
+  res: Response,
+  run: ChatRun,
+  meta: { mode: ChatAnswerMode; kbIds: string[] },
+) => {
+  const abortController = new AbortController()
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort()
+  })
+
+  openEventStream(res)
+  const stopHeartbeat = startHeartbeat(res)
+
+  try {
+    const result = await run({
+      onToken: delta => sendEvent(res, 'token', { delta }),
+      signal: abortController.signal,
+    })
+    sendEvent(res, 'done', { ...meta, ...result })
+  } catch (error: unknown) {
+    if (!abortController.signal.aborted) {
+      console.error(error)
+      sendEvent(res, 'error', { message: toClientErrorMessage(error) })
+    }
+  } finally {
+    stopHeartbeat()
+    res.end()
+  }
+}
 
 export const chat = async (req: Request, res: Response) => {
-  const { question, licenseKey, kbId, history } = req.body
+  const { question, licenseKey, conversationId, history } = req.body
   const user = req.user
 
   if (!user) return res.status(401).json({ message: 'Unauthorized' })
 
   try {
+    // With an API key the key's license is used; `licenseKey` is only needed with a user token
     const license = await licenseRepository.findOne({
-      where: { key: licenseKey },
+      where: req.apiKey ? { id: req.apiKey.licenseId } : { key: licenseKey },
       relations: ['user', 'knowledgeBases'],
     })
 
@@ -32,6 +94,29 @@ export const chat = async (req: Request, res: Response) => {
         return res.status(403).json({ message: 'License has expired' })
     }
 
+    const exceeded = await checkLicenseQuota(license)
+    if (exceeded) {
+      const retryAfterSec = Math.ceil((exceeded.resetsAt.getTime() - Date.now()) / 1000)
+      res.setHeader('Retry-After', String(Math.max(retryAfterSec, 1)))
+      return res.status(429).json({
+        message:
+          exceeded.quota === 'questions'
+            ? 'Monthly question quota exceeded for this license'
+            : 'Monthly token quota exceeded for this license',
+        ...exceeded,
+      })
+    }
+
+    let conversation: Conversation | null = null
+    if (conversationId) {
+      conversation = await conversationRepository.findOne({ where: { id: conversationId } })
+      if (!conversation) return res.status(404).json({ message: 'Conversation not found' })
+      if (conversation.userId !== user.userId || conversation.licenseId !== license.id)
+        return res.status(403).json({ message: 'Forbidden access to this conversation' })
+    }
+
+    // A thread may pin a KB; an explicit `kbId` in the request still wins.
+    const kbId: string | null = req.body.kbId || conversation?.kbId || null
     let knowledgeBase: KnowledgeBase | null = null
 
     if (kbId) {
@@ -42,6 +127,16 @@ export const chat = async (req: Request, res: Response) => {
       }
     }
 
+    // Threads load their history server-side; otherwise fall back to client-supplied history.
+    const historyItems = conversation
+      ? await loadConversationHistory(conversation.id)
+      : Array.isArray(history)
+        ? history
+        : undefined
+    let mode: ChatAnswerMode
+    let kbIds: string[]
+    let run: ChatRun
+
     // If no specific kbId was requested, support multi-KB retrieval across ALL attached KBs.
     if (!kbId && Array.isArray(license.knowledgeBases) && license.knowledgeBases.length > 0) {
       const attachedKbIds = license.knowledgeBases.map(k => k.id)
@@ -50,35 +145,94 @@ export const chat = async (req: Request, res: Response) => {
         .filter((s): s is string => typeof s === 'string' && s.trim().length > 0)
         .join('\n\n---\n\n')
 
-      const answer = await ragService.queryAcrossKnowledgeBases(
-        attachedKbIds,
-        question,
-        mergedInstructions || null,
-        Array.isArray(history) ? history : undefined,
-      )
-      return res.json({ answer })
+      mode = 'multi_kb'
+      kbIds = attachedKbIds
+      run = options =>
+        ragService.queryAcrossKnowledgeBases(
+          attachedKbIds,
+          question,
+          mergedInstructions || null,
+          historyItems,
+          options,
+        )
+    } else if (!knowledgeBase) {
+      mode = 'global'
+      kbIds = []
+      run = options =>
+        ragService.queryGlobal(question, GLOBAL_FALLBACK_PROMPT_INSTRUCTIONS, historyItems, options)
+    } else {
+      const { id, promptInstructions } = knowledgeBase
+      mode = 'kb'
+      kbIds = [id]
+      run = options => ragService.query(id, question, promptInstructions, historyItems, options)
+    }
+
+    // Meter every question; token counts stay internal and are not returned. Tokens are
+    // counted as they are spent and recorded even when the answer fails or is aborted.
+    const unmetered = run
+    run = async options => {
+      const startedAt = Date.now()
+      const spent: TokenUsage = { promptTokens: 0, completionTokens: 0 }
+      let answered: ChatResult | null = null
+      try {
+        answered = await unmetered({
+          ...options,
+          licenseLlm: license.llmOverrides,
+          onUsage: tokens => {
+            spent.promptTokens += tokens.promptTokens
+            spent.completionTokens += tokens.completionTokens
+          },
+        })
+      } finally {
+        // A question that failed before reaching any LLM cost nothing and is not counted
+        if (answered || spent.promptTokens > 0 || spent.completionTokens > 0) {
+          const answerMode = answered?.mode ?? mode
+          await recordUsageEvent({
+            type: UsageEventType.CHAT,
+            licenseId: license.id,
+            userId: user.userId,
+            kbIds: answerMode === 'global' ? [] : kbIds,
+            provider: answered?.usage?.provider ?? null,
+            model: answered?.usage?.model ?? null,
+            llmFallback: answered?.usage?.fallback ?? false,
+            ...spent,
+            latencyMs: Date.now() - startedAt,
+            mode: answerMode,
+          })
+        }
+      }
+      const { usage, ...result } = answered
+      if (!usage) return result
+      // Which LLM answered is reported, e.g. when a fallback provider stepped in
+      return {
+        ...result,
+        llm: { provider: usage.provider, model: usage.model, fallback: usage.fallback ?? false },
+      }
+    }
+
+    if (conversation) {
+      const thread = conversation
+      const answerOnly = run
+      run = async options => {
+        const result = await answerOnly(options)
+        const message = await appendExchange(thread, question, result)
+        return { ...result, conversationId: thread.id, messageId: message.id }
+      }
     }
 
-    if (!knowledgeBase) {
-      const answer = await ragService.queryGlobal(
-        question,
-        GLOBAL_FALLBACK_PROMPT_INSTRUCTIONS,
-        Array.isArray(history) ? history : undefined,
-      )
-      return res.json({ answer })
+    // Citations link to expiring signed URLs for this license; stored messages keep plain paths
+    const unsigned = run
+    run = async options => {
+      const result = await unsigned(options)
+      return { ...result, sources: signSourceLinks(result.sources, license.id) }
     }
 
-    const answer = await ragService.query(
-      knowledgeBase.id,
-      question,
-      knowledgeBase.promptInstructions,
-      Array.isArray(history) ? history : undefined,
-    )
-    return res.json({ answer })
+    if (wantsEventStream(req)) return await streamAnswer(res, run, { mode, kbIds })
+
+    const result = await run({})
+    return res.json(result)
   } catch (error: unknown) {
     console.error(error)
-    if (error instanceof Error && error.message.includes('API_KEY'))
-      return res.status(500).json({ message: error.message })
-    return res.status(500).json({ message: 'Error processing query' })
+    return res.status(500).json({ message: toClientErrorMessage(error) })
   }
 }
@@ -2,7 +2,9 @@ import { Request, Response } from 'express'
 import { AppDataSource } from '../../data-source'
 import { KnowledgeBase } from '../../entities/KnowledgeBase'
 import { License } from '../../entities/License'
+import { UsageEventType } from '../../entities/UsageEvent'
 import { ragService } from '../../services/ragService'
+import { recordUsageEvent } from '../../services/usageService'
 import { isLicenseValid } from '../licenseController'
 
 const licenseRepository = AppDataSource.getRepository(License)
@@ -15,8 +17,9 @@ export const uploadDocument = async (req: Request, res: Response) => {
   if (!user) return res.status(401).json({ message: 'Unauthorized' })
 
   try {
+    // With an API key the key's license is used; `licenseKey` is only needed with a user token
     const license = await licenseRepository.findOne({
-      where: { key: licenseKey },
+      where: req.apiKey ? { id: req.apiKey.licenseId } : { key: licenseKey },
       relations: ['user', 'knowledgeBases'],
     })
 
@@ -40,7 +43,19 @@ export const uploadDocument = async (req: Request, res: Response) => {
       return res.status(403).json({ message: 'Knowledge base not attached to this license' })
     }
 
-    await ragService.ingestDocument(kbId, text, metadata)
+    const startedAt = Date.now()
+    const ingested = await ragService.ingestDocument(kbId, text, metadata)
+    await recordUsageEvent({
+      type: UsageEventType.INGESTION,
+      licenseId: license.id,
+      userId: user.userId,
+      kbIds: [kbId],
+      provider: ingested.provider,
+      model: ingested.model,
+      promptTokens: ingested.estimatedTokens,
+      tokensEstimated: true,
+      latencyMs: Date.now() - startedAt,
+    })
     return res.status(200).json({ message: 'Document ingested successfully' })
   } catch (error: unknown) {
     console.error(error)
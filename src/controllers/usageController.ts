@@ -0,0 +1,39 @@
+import { Request, Response } from 'express'
+import { z } from 'zod'
+
+import { summarizeMonthlyUsage } from '../services/usageService'
+
+const monthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM')
+  .transform(v => {
+    const [year, month] = v.split('-').map(Number)
+    return { year, month }
+  })
+
+const usageQuerySchema = z.object({
+  licenseId: z.string().uuid().optional(),
+  from: monthSchema.optional(),
+  to: monthSchema.optional(),
+})
+
+export const getUsageSummary = async (req: Request, res: Response) => {
+  const parsed = usageQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return res.status(400).json({ message: 'Invalid query params', issues: parsed.error.format() })
+  }
+  const { licenseId, from, to } = parsed.data
+
+  try {
+    const items = await summarizeMonthlyUsage({
+      licenseId,
+      from: from ? new Date(Date.UTC(from.year, from.month - 1, 1)) : undefined,
+      // `to` is inclusive: include the whole month
+      to: to ? new Date(Date.UTC(to.year, to.month, 1)) : undefined,
+    })
+    return res.json({ items })
+  } catch (error) {
+    console.error(error)
+    return res.status(500).json({ message: 'Error summarizing usage' })
+  }
+}
@@ -3,9 +3,12 @@ import type { FindOptionsOrder } from 'typeorm'
 import bcrypt from 'bcryptjs'
 
 import { AppDataSource } from '../data-source'
+import { AuditTargetType } from '../entities/AuditEvent'
 import { License } from '../entities/License'
 import { CustomerStatus, User } from '../entities/User'
 import { buildMeta, parsePaginationQuery, pickSort } from '../utils/pagination'
+import { auditSnapshot, recordAuditEvent } from '../services/auditService'
+import { revokeUserSessions } from '../services/authTokenService'
 import { sanitizeUser } from '../utils/userUtils'
 import { isLicenseValid } from './licenseController'
 
@@ -108,7 +111,7 @@ export const getUser = async (req: Request, res: Response) => {
   }
 }
 
-export const deleteUser = async (req: Request, res: Response) => {
+export const deleteUser = async (req: Request<{ id: string }>, res: Response) => {
   const { id } = req.params
   const currentUser = req.user
 
@@ -135,7 +138,17 @@ export const deleteUser = async (req: Request, res: Response) => {
       })
     }
 
+    // Revokes outstanding tokens; the user's refresh tokens are then deleted with it
+    await revokeUserSessions(user.id)
+    const before = auditSnapshot(user)
     await userRepository.remove(user)
+    await recordAuditEvent(currentUser, {
+      action: 'user.delete',
+      targetType: AuditTargetType.USER,
+      targetId: id,
+      before,
+      after: null,
+    })
 
     return res.json({ message: 'User deleted successfully' })
   } catch (error) {
@@ -166,6 +179,7 @@ export const updateUser = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' })
     }
 
+    const before = auditSnapshot(user)
     if (legalName !== undefined) user.legalName = legalName ?? null
     if (centerName !== undefined) user.centerName = centerName ?? null
     if (customerStatus !== undefined)
@@ -177,6 +191,13 @@ export const updateUser = async (req: Request, res: Response) => {
       user.assignedAgentFullName = assignedAgentFullName ?? null
 
     await userRepository.save(user)
+    await recordAuditEvent(req.user, {
+      action: 'user.update',
+      targetType: AuditTargetType.USER,
+      targetId: user.id,
+      before,
+      after: user,
+    })
 
     const updated = await userRepository.findOne({
       where: { id },
@@ -213,10 +234,19 @@ export const updateUserPassword = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'User not found' })
     }
 
+    const before = auditSnapshot(user)
     const salt = await bcrypt.genSalt(10)
     user.password = await bcrypt.hash(newPassword, salt)
 
     await userRepository.save(user)
+    await revokeUserSessions(user.id)
+    await recordAuditEvent(req.user, {
+      action: 'user.set_password',
+      targetType: AuditTargetType.USER,
+      targetId: user.id,
+      before,
+      after: user,
+    })
 
     return res.json({ message: 'User password updated successfully' })
   } catch (error) {
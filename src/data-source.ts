@@ -2,11 +2,22 @@ import 'reflect-metadata'
 import dotenv from 'dotenv'
 import { DataSource } from 'typeorm'
 
+import { ApiKey } from './entities/ApiKey'
+import { AuditEvent } from './entities/AuditEvent'
 import { Configuration } from './entities/Configuration'
+import { Conversation } from './entities/Conversation'
 import { Document } from './entities/Document'
+import { DocumentVersion } from './entities/DocumentVersion'
+import { IngestionJob } from './entities/IngestionJob'
+import { IngestionJobItem } from './entities/IngestionJobItem'
 import { KnowledgeBase } from './entities/KnowledgeBase'
 import { License } from './entities/License'
+import { Message } from './entities/Message'
+import { RateLimitCounter } from './entities/RateLimitCounter'
+import { RefreshToken } from './entities/RefreshToken'
+import { UsageEvent } from './entities/UsageEvent'
 import { User } from './entities/User'
+import { UserToken } from './entities/UserToken'
 
 dotenv.config()
 
@@ -19,7 +30,24 @@ export const AppDataSource = new DataSource({
   database: process.env.DB_NAME || 'beauty_db',
   synchronize: false, // Set to false in production and use migrations
   logging: process.env.DB_LOGGING === 'true',
-  entities: [User, License, KnowledgeBase, Configuration, Document],
+  entities: [
+    User,
+    License,
+    KnowledgeBase,
+    Configuration,
+    Document,
+    DocumentVersion,
+    Conversation,
+    Message,
+    IngestionJob,
+    IngestionJobItem,
+    UsageEvent,
+    RefreshToken,
+    UserToken,
+    ApiKey,
+    RateLimitCounter,
+    AuditEvent,
+  ],
   migrations: [],
   ssl: {
     rejectUnauthorized: false,
@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, Index, CreateDateColumn } from 'typeorm'
+import { License } from './License'
+
+export enum ApiKeyScope {
+  CHAT = 'chat',
+  INGEST = 'ingest',
+}
+
+/**
+ * Credential for server-to-server calls on behalf of a license. Only the SHA-256 hash of
+ * the key is stored; `prefix` is kept so keys can be told apart in listings.
+ */
+@Entity()
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @ManyToOne(() => License, { onDelete: 'CASCADE' })
+  license!: License
+
+  @Index()
+  @Column()
+  licenseId!: string
+
+  @Column()
+  name!: string
+
+  @Column()
+  prefix!: string
+
+  @Index({ unique: true })
+  @Column()
+  keyHash!: string
+
+  @Column('simple-array')
+  scopes!: ApiKeyScope[]
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastUsedAt!: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  rotatedAt!: Date | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt!: Date | null
+
+  @Column({ type: 'uuid', nullable: true })
+  createdByUserId!: string | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+}
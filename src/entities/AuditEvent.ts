@@ -0,0 +1,59 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  Index,
+  CreateDateColumn,
+} from 'typeorm'
+import { User } from './User'
+import type { AuditAction, AuditChanges } from '../types/audit'
+
+export enum AuditTargetType {
+  LICENSE = 'license',
+  USER = 'user',
+  KNOWLEDGE_BASE = 'knowledge_base',
+  DOCUMENT = 'document',
+  AI_CONFIG = 'ai_config',
+  API_KEY = 'api_key',
+  INGESTION_JOB = 'ingestion_job',
+}
+
+/**
+ * Append-only log of administrative changes: who changed which record, and how.
+ */
+@Entity()
+@Index(['targetType', 'targetId'])
+export class AuditEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  // The event is kept when the actor is deleted; only the reference is cleared
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'actorUserId' })
+  actor!: User | null
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  actorUserId!: string | null
+
+  @Column({ type: 'varchar' })
+  action!: AuditAction
+
+  @Column({
+    type: 'simple-enum',
+    enum: AuditTargetType,
+  })
+  targetType!: AuditTargetType
+
+  @Column({ type: 'varchar', nullable: true })
+  targetId!: string | null
+
+  @Column('simple-json', { nullable: true })
+  changes!: AuditChanges | null
+
+  @Index()
+  @CreateDateColumn()
+  createdAt!: Date
+}
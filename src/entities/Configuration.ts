@@ -6,7 +6,8 @@ import {
   UpdateDateColumn,
   ValueTransformer,
 } from 'typeorm'
-import { LLMProvider } from './KnowledgeBase'
+import { EmbeddingProvider, LLMProvider, NoMatchPolicy, RetrievalMode } from './KnowledgeBase'
+import type { LlmOverrides } from '../types/llm'
 
 // Transformer to convert numeric strings to numbers
 const numericTransformer: ValueTransformer = {
@@ -53,6 +54,42 @@ export class Configuration {
   @Column('simple-array', { nullable: true })
   stopSequences!: string[] | null
 
+  // Tried in order when the resolved LLM keeps failing; each is layered over it
+  @Column('simple-json', { nullable: true })
+  fallbackLlms!: LlmOverrides[] | null
+
+  // Defaults for new knowledge bases; existing KBs keep the model they were indexed with.
+  @Column({
+    type: 'simple-enum',
+    enum: EmbeddingProvider,
+    nullable: true,
+  })
+  embeddingProvider!: EmbeddingProvider | null
+
+  @Column({ type: 'varchar', nullable: true })
+  embeddingModel!: string | null
+
+  @Column('int', { nullable: true })
+  embeddingDimension!: number | null
+
+  @Column({
+    type: 'simple-enum',
+    enum: RetrievalMode,
+    default: RetrievalMode.VECTOR,
+  })
+  retrievalMode!: RetrievalMode
+
+  // Relevance threshold and no-match behaviour for knowledge bases that don't set their own
+  @Column('decimal', { nullable: true, precision: 3, scale: 2, transformer: numericTransformer })
+  minScore!: number | null
+
+  @Column({
+    type: 'simple-enum',
+    enum: NoMatchPolicy,
+    default: NoMatchPolicy.GLOBAL,
+  })
+  noMatchPolicy!: NoMatchPolicy
+
   @CreateDateColumn()
   createdAt!: Date
 
@@ -0,0 +1,45 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm'
+import { License } from './License'
+import { Message } from './Message'
+import { User } from './User'
+
+@Entity()
+export class Conversation {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @Column({ type: 'varchar', nullable: true })
+  title!: string | null // Defaults to the first question when not set explicitly
+
+  @ManyToOne(() => License, { onDelete: 'CASCADE' })
+  license!: License
+
+  @Column()
+  licenseId!: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user!: User
+
+  @Column()
+  userId!: string
+
+  @Column({ type: 'varchar', nullable: true })
+  kbId!: string | null // Optional KB pinned to this thread (otherwise all attached KBs are used)
+
+  @OneToMany(() => Message, message => message.conversation)
+  messages!: Message[]
+
+  @CreateDateColumn()
+  createdAt!: Date
+
+  @UpdateDateColumn()
+  updatedAt!: Date
+}
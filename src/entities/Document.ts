@@ -3,12 +3,22 @@ import {
   PrimaryGeneratedColumn,
   Column,
   ManyToOne,
+  Index,
   CreateDateColumn,
   UpdateDateColumn,
 } from 'typeorm'
 import { KnowledgeBase } from './KnowledgeBase'
 import type { JsonObject } from '../types/json'
 
+export enum DocumentFormat {
+  PDF = 'pdf',
+  DOCX = 'docx',
+  TXT = 'txt',
+  MARKDOWN = 'markdown',
+  HTML = 'html',
+  CSV = 'csv',
+}
+
 @Entity()
 export class Document {
   @PrimaryGeneratedColumn('uuid')
@@ -18,7 +28,28 @@ export class Document {
   fileName!: string
 
   @Column()
-  filePath!: string // Path to stored PDF file
+  filePath!: string // Storage key of the source file (absolute path for legacy rows)
+
+  @Column({
+    type: 'simple-enum',
+    enum: DocumentFormat,
+    default: DocumentFormat.PDF,
+  })
+  format!: DocumentFormat // Source format; picks the text extractor and download Content-Type
+
+  // SHA-256 of the current file; uploads with the same hash in the KB are duplicates
+  @Index()
+  @Column({ type: 'varchar', nullable: true })
+  contentHash!: string | null
+
+  // Hash of file, extraction, chunking and embedding settings of the last successful index;
+  // reindex skips documents whose fingerprint is unchanged
+  @Column({ type: 'varchar', nullable: true })
+  indexFingerprint!: string | null
+
+  // Version whose file and vectors are live; see DocumentVersion for the history
+  @Column('int', { default: 1 })
+  currentVersion!: number
 
   @Column('simple-json', { nullable: true })
   metadata!: JsonObject | null // Additional metadata (file size, page count, etc.)
@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, Index, CreateDateColumn } from 'typeorm'
+import { Document, DocumentFormat } from './Document'
+import type { JsonObject } from '../types/json'
+
+/**
+ * One uploaded file of a document. The `Document` row mirrors the current version, so
+ * its id (and the links customers saved) never change when a file is replaced.
+ */
+@Entity()
+@Index(['documentId', 'version'], { unique: true })
+export class DocumentVersion {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  document!: Document
+
+  @Column()
+  documentId!: string
+
+  @Column('int')
+  version!: number
+
+  @Column()
+  fileName!: string
+
+  @Column()
+  filePath!: string
+
+  @Column({
+    type: 'simple-enum',
+    enum: DocumentFormat,
+    default: DocumentFormat.PDF,
+  })
+  format!: DocumentFormat
+
+  @Column({ type: 'varchar', nullable: true })
+  contentHash!: string | null
+
+  @Column('simple-json', { nullable: true })
+  metadata!: JsonObject | null
+
+  @Column({ type: 'varchar', nullable: true })
+  createdByUserId!: string | null
+
+  // Set once the version has been indexed; versions that never indexed were never current
+  @Column({ type: 'timestamp', nullable: true })
+  ingestedAt!: Date | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+}
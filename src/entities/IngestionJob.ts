@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  OneToMany,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm'
+import { IngestionJobItem } from './IngestionJobItem'
+import { KnowledgeBase } from './KnowledgeBase'
+
+export enum IngestionJobType {
+  UPLOAD = 'upload',
+  REINDEX = 'reindex',
+  REPLACE = 'replace',
+  ROLLBACK = 'rollback',
+}
+
+@Entity()
+export class IngestionJob {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @Column({
+    type: 'simple-enum',
+    enum: IngestionJobType,
+  })
+  type!: IngestionJobType
+
+  @ManyToOne(() => KnowledgeBase, { onDelete: 'CASCADE' })
+  knowledgeBase!: KnowledgeBase
+
+  @Column()
+  knowledgeBaseId!: string
+
+  @Column({ type: 'varchar', nullable: true })
+  createdByUserId!: string | null
+
+  @Column({ type: 'timestamp', nullable: true })
+  cancelledAt!: Date | null
+
+  @OneToMany(() => IngestionJobItem, item => item.job)
+  items!: IngestionJobItem[]
+
+  @CreateDateColumn()
+  createdAt!: Date
+
+  @UpdateDateColumn()
+  updatedAt!: Date
+}
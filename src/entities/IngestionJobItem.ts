@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  Index,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm'
+import { Document } from './Document'
+import { IngestionJob } from './IngestionJob'
+
+export enum IngestionItemStatus {
+  QUEUED = 'queued',
+  PARSING = 'parsing',
+  EMBEDDING = 'embedding',
+  DONE = 'done',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped', // Reindex found the document unchanged; nothing was re-embedded
+}
+
+@Entity()
+@Index(['status', 'createdAt'])
+export class IngestionJobItem {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @ManyToOne(() => IngestionJob, job => job.items, { onDelete: 'CASCADE' })
+  job!: IngestionJob
+
+  @Column()
+  jobId!: string
+
+  @ManyToOne(() => Document, { onDelete: 'CASCADE' })
+  document!: Document
+
+  @Column()
+  documentId!: string
+
+  // Version to index and make current once indexed; null = the document's current file
+  @Column({ type: 'uuid', nullable: true })
+  documentVersionId!: string | null
+
+  @Column()
+  fileName!: string
+
+  @Column({
+    type: 'simple-enum',
+    enum: IngestionItemStatus,
+    default: IngestionItemStatus.QUEUED,
+  })
+  status!: IngestionItemStatus
+
+  @Column('text', { nullable: true })
+  error!: string | null
+
+  @Column('int', { default: 0 })
+  attempts!: number
+
+  @Column({ type: 'timestamp', nullable: true })
+  lockedAt!: Date | null // Set when a worker claims the item; stale locks are re-queued
+
+  @Column({ type: 'timestamp', nullable: true })
+  finishedAt!: Date | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+
+  @UpdateDateColumn()
+  updatedAt!: Date
+}
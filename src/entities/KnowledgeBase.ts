@@ -10,6 +10,7 @@ import {
 import { License } from './License'
 import { Document } from './Document'
 import type { JsonObject } from '../types/json'
+import type { LlmOverrides } from '../types/llm'
 
 export enum LLMProvider {
   OPENAI = 'OPENAI',
@@ -17,6 +18,42 @@ export enum LLMProvider {
   ANTHROPIC = 'ANTHROPIC',
 }
 
+export enum EmbeddingProvider {
+  OPENAI = 'OPENAI',
+  GEMINI = 'GEMINI',
+  VERTEX = 'VERTEX',
+  OPENAI_COMPATIBLE = 'OPENAI_COMPATIBLE', // self-hosted endpoint speaking the OpenAI embeddings API
+}
+
+export enum RetrievalMode {
+  VECTOR = 'vector',
+  HYBRID = 'hybrid', // vector + full-text search fused by reciprocal rank
+}
+
+export enum ChunkingStrategy {
+  RECURSIVE = 'recursive', // fixed-size chunks split on paragraph, line and word boundaries
+  PAGE = 'page', // chunks never span two pages; long pages are split further
+  HEADING = 'heading', // one chunk per Markdown section; long sections are split further
+}
+
+export enum NoMatchPolicy {
+  REFUSE = 'refuse', // reply with the refusal message, without calling the LLM
+  GLOBAL = 'global', // answer from general knowledge (web search for OpenAI)
+  WARN = 'warn', // answer from the best chunks anyway, flagged as low confidence
+}
+
+export enum RerankerType {
+  LLM = 'llm', // scores passages with the configured chat model
+  CROSS_ENCODER = 'cross_encoder', // rerank API (Cohere, Jina, Voyage or self-hosted)
+  LEXICAL = 'lexical', // local term overlap; deterministic, for offline use and tests
+}
+
+export enum QueryExpansionStrategy {
+  STANDALONE = 'standalone', // rewrite follow-ups into a self-contained question using the history
+  MULTI_QUERY = 'multi_query', // also search with paraphrases (and an English version)
+  HYDE = 'hyde', // also search with the embedding of a hypothetical answer passage
+}
+
 @Entity()
 export class KnowledgeBase {
   @PrimaryGeneratedColumn('uuid')
@@ -34,6 +71,86 @@ export class KnowledgeBase {
   @Column('text', { nullable: true })
   promptInstructions!: string | null // Custom prompt instructions for this knowledge base
 
+  // Fixed per KB: every chunk of a KB must be embedded by the same model.
+  // Defaults match the vectors stored before embeddings became configurable.
+  @Column({
+    type: 'simple-enum',
+    enum: EmbeddingProvider,
+    default: EmbeddingProvider.OPENAI,
+  })
+  embeddingProvider!: EmbeddingProvider
+
+  @Column({ type: 'varchar', default: 'text-embedding-3-small' })
+  embeddingModel!: string
+
+  @Column('int', { nullable: true, default: 1536 })
+  embeddingDimension!: number | null // null until the first chunk is embedded (unknown models)
+
+  @Column({
+    type: 'simple-enum',
+    enum: RetrievalMode,
+    nullable: true,
+  })
+  retrievalMode!: RetrievalMode | null // null = use Configuration.retrievalMode
+
+  // Opt-in: OCR changes the index fingerprint and may download language data at runtime
+  @Column({ default: false })
+  ocrEnabled!: boolean // OCR scanned PDF pages that have no text layer
+
+  // Chunking: changing any of these re-embeds the KB's documents
+  @Column({
+    type: 'simple-enum',
+    enum: ChunkingStrategy,
+    default: ChunkingStrategy.RECURSIVE,
+  })
+  chunkingStrategy!: ChunkingStrategy
+
+  @Column('int', { default: 1000 })
+  chunkSize!: number // characters
+
+  @Column('int', { default: 200 })
+  chunkOverlap!: number // characters shared by consecutive chunks
+
+  @Column('simple-json', { nullable: true })
+  chunkSeparators!: string[] | null // null = paragraph, line, word (splitter defaults)
+
+  // Retrieval
+  @Column('int', { nullable: true })
+  topK!: number | null // null = RAG_TOP_K
+
+  @Column('float', { nullable: true })
+  minScore!: number | null // chunks scoring lower are not used as context; null = Configuration.minScore
+
+  // What to answer when no chunk clears minScore
+  @Column({
+    type: 'simple-enum',
+    enum: NoMatchPolicy,
+    nullable: true,
+  })
+  noMatchPolicy!: NoMatchPolicy | null // null = Configuration.noMatchPolicy
+
+  @Column('text', { nullable: true })
+  noMatchMessage!: string | null // reply of the `refuse` policy; null = built-in message
+
+  @Column('int', { nullable: true })
+  maxContextChars!: number | null // null = no limit
+
+  // Reorders over-fetched candidates before the topK are picked; null = off
+  @Column({
+    type: 'simple-enum',
+    enum: RerankerType,
+    nullable: true,
+  })
+  reranker!: RerankerType | null
+
+  // Rewrites of the question searched before the results are merged; null = as asked
+  @Column('simple-json', { nullable: true })
+  queryExpansion!: QueryExpansionStrategy[] | null
+
+  // Chat model settings layered over the AI configuration (and the license's overrides)
+  @Column('simple-json', { nullable: true })
+  llmOverrides!: LlmOverrides | null
+
   @OneToMany(() => Document, document => document.knowledgeBase)
   pdfDocuments!: Document[]
 
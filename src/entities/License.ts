@@ -11,6 +11,7 @@ import {
 } from 'typeorm'
 import { User } from './User'
 import { KnowledgeBase } from './KnowledgeBase'
+import type { LlmOverrides } from '../types/llm'
 
 @Entity()
 export class License {
@@ -26,6 +27,21 @@ export class License {
   @Column({ type: 'timestamp', nullable: true })
   expiresAt!: Date | null
 
+  // Monthly limits enforced on /rag/chat (null = unlimited); reset on the 1st of each UTC month
+  @Column('int', { nullable: true })
+  monthlyQuestionQuota!: number | null
+
+  @Column('int', { nullable: true })
+  monthlyTokenQuota!: number | null
+
+  // Named entry of RATE_LIMIT_TIERS with this license's request limits (null = defaults)
+  @Column({ type: 'varchar', nullable: true })
+  rateLimitTier!: string | null
+
+  // Chat model settings layered over the AI configuration; a knowledge base's own win
+  @Column('simple-json', { nullable: true })
+  llmOverrides!: LlmOverrides | null
+
   @OneToOne(() => User, user => user.license, { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'userId' })
   user!: User
@@ -0,0 +1,30 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn } from 'typeorm'
+import { Conversation } from './Conversation'
+import type { ChatAnswerMode, ChatRole, RagSource } from '../types/rag'
+
+@Entity()
+export class Message {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @ManyToOne(() => Conversation, conversation => conversation.messages, { onDelete: 'CASCADE' })
+  conversation!: Conversation
+
+  @Column()
+  conversationId!: string
+
+  @Column({ type: 'varchar' })
+  role!: ChatRole
+
+  @Column('text')
+  content!: string
+
+  @Column('simple-json', { nullable: true })
+  sources!: RagSource[] | null // Retrieved sources for assistant answers (for later review)
+
+  @Column({ type: 'varchar', nullable: true })
+  mode!: ChatAnswerMode | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+}
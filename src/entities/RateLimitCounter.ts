@@ -0,0 +1,21 @@
+import { Entity, PrimaryColumn, Column, Index } from 'typeorm'
+
+/**
+ * Hits of one rate-limit key in one fixed window, for the Postgres rate-limit store.
+ */
+@Entity()
+export class RateLimitCounter {
+  @PrimaryColumn()
+  key!: string
+
+  @PrimaryColumn({ type: 'timestamp' })
+  windowStart!: Date
+
+  @Column('int', { default: 0 })
+  count!: number
+
+  // Once the window no longer counts as the previous one; expired rows are pruned
+  @Index()
+  @Column({ type: 'timestamp' })
+  expiresAt!: Date
+}
@@ -0,0 +1,41 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, Index, CreateDateColumn } from 'typeorm'
+import { User } from './User'
+
+/**
+ * One issued refresh token. Only the SHA-256 hash of the token is stored.
+ * Every rotation creates a new row in the same family; presenting a revoked token
+ * again means it leaked, so the whole family is revoked.
+ */
+@Entity()
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user!: User
+
+  @Index()
+  @Column()
+  userId!: string
+
+  @Index({ unique: true })
+  @Column()
+  tokenHash!: string
+
+  @Index()
+  @Column('uuid')
+  familyId!: string
+
+  @Column({ type: 'timestamp' })
+  expiresAt!: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  revokedAt!: Date | null
+
+  // Token issued when this one was rotated
+  @Column({ type: 'uuid', nullable: true })
+  replacedById!: string | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+}
@@ -0,0 +1,65 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, Index, CreateDateColumn } from 'typeorm'
+import { License } from './License'
+import type { ChatAnswerMode } from '../types/rag'
+
+export enum UsageEventType {
+  CHAT = 'chat',
+  INGESTION = 'ingestion',
+}
+
+/**
+ * Append-only usage ledger: one row per answered question or ingested document.
+ */
+@Entity()
+@Index(['licenseId', 'createdAt'])
+export class UsageEvent {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @Column({
+    type: 'simple-enum',
+    enum: UsageEventType,
+  })
+  type!: UsageEventType
+
+  // Kept when the license is deleted so past costs stay accounted for
+  @ManyToOne(() => License, { onDelete: 'SET NULL', nullable: true })
+  license!: License | null
+
+  @Column({ type: 'varchar', nullable: true })
+  licenseId!: string | null
+
+  @Column({ type: 'varchar', nullable: true })
+  userId!: string | null
+
+  @Column('simple-array', { nullable: true })
+  kbIds!: string[] | null
+
+  @Column({ type: 'varchar', nullable: true })
+  provider!: string | null
+
+  @Column({ type: 'varchar', nullable: true })
+  model!: string | null
+
+  // The provider/model above is a fallback because the resolved LLM failed
+  @Column({ default: false })
+  llmFallback!: boolean
+
+  @Column('int', { default: 0 })
+  promptTokens!: number
+
+  @Column('int', { default: 0 })
+  completionTokens!: number
+
+  @Column({ default: false })
+  tokensEstimated!: boolean
+
+  @Column('int', { default: 0 })
+  latencyMs!: number
+
+  @Column({ type: 'varchar', nullable: true })
+  mode!: ChatAnswerMode | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+}
@@ -67,6 +67,14 @@ export class User {
   @Column({ type: 'varchar', nullable: true })
   assignedAgentFullName!: string | null
 
+  // Accounts created before email verification existed count as verified
+  @Column({ default: true })
+  emailVerified!: boolean
+
+  // Bumped on password change to revoke all access tokens issued before
+  @Column('int', { default: 0 })
+  tokenVersion!: number
+
   @OneToOne(() => License, license => license.user)
   license!: License | null
 
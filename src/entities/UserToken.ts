@@ -0,0 +1,42 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, Index, CreateDateColumn } from 'typeorm'
+import { User } from './User'
+
+export enum UserTokenPurpose {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+}
+
+/**
+ * Single-use token sent by email. Only the SHA-256 hash of the token is stored.
+ */
+@Entity()
+export class UserToken {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user!: User
+
+  @Index()
+  @Column()
+  userId!: string
+
+  @Column({
+    type: 'simple-enum',
+    enum: UserTokenPurpose,
+  })
+  purpose!: UserTokenPurpose
+
+  @Index({ unique: true })
+  @Column()
+  tokenHash!: string
+
+  @Column({ type: 'timestamp' })
+  expiresAt!: Date
+
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt!: Date | null
+
+  @CreateDateColumn()
+  createdAt!: Date
+}
@@ -7,11 +7,18 @@ import swaggerUi from 'swagger-ui-express'
 
 import { AppDataSource } from './data-source'
 import { swaggerSpec } from './config/swagger'
+import { startIngestionWorker } from './services/ingestionWorker'
+import { getMailTransport } from './services/mail/mailService'
+import { getRateLimitConfig } from './services/rateLimit'
+import auditRoutes from './routes/auditRoutes'
 import authRoutes from './routes/authRoutes'
 import configRoutes from './routes/configRoutes'
+import conversationRoutes from './routes/conversationRoutes'
+import jobRoutes from './routes/jobRoutes'
 import kbRoutes from './routes/kbRoutes'
 import licenseRoutes from './routes/licenseRoutes'
 import ragRoutes from './routes/ragRoutes'
+import usageRoutes from './routes/usageRoutes'
 import userRoutes from './routes/userRoutes'
 
 dotenv.config()
@@ -19,6 +26,10 @@ dotenv.config()
 const app = express()
 const PORT = process.env.PORT || 3000
 
+// Behind a reverse proxy, rate limits need the client IP from X-Forwarded-For (e.g. TRUST_PROXY=1)
+const trustProxy = process.env.TRUST_PROXY?.trim()
+if (trustProxy) app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy)
+
 app.use(cors())
 app.use(helmet())
 app.use(express.json())
@@ -59,11 +70,19 @@ app.use('/licenses', licenseRoutes)
 app.use('/knowledge-bases', kbRoutes)
 app.use('/users', userRoutes)
 app.use('/config', configRoutes)
+app.use('/conversations', conversationRoutes)
+app.use('/jobs', jobRoutes)
+app.use('/usage', usageRoutes)
+app.use('/audit', auditRoutes)
 
 app.get('/', (req, res) => {
   res.send('RAG Backend is running')
 })
 
+// Fail at startup, not on the first email or request, when these settings are invalid
+getMailTransport()
+getRateLimitConfig()
+
 AppDataSource.initialize()
   .then(() => {
     // Data source initialized
@@ -75,6 +94,9 @@ AppDataSource.initialize()
     server.requestTimeout = 15 * 60 * 1000 // 15 minutes
     server.headersTimeout = 15 * 60 * 1000
     server.keepAliveTimeout = 60 * 1000
+
+    // Run ingestion in-process unless a dedicated worker (`yarn worker:ingestion`) handles it
+    if (process.env.INGESTION_WORKER_ENABLED !== 'false') startIngestionWorker()
   })
   .catch(err => {
     console.error('Error during Data Source initialization', err)
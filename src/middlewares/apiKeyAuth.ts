@@ -0,0 +1,44 @@
+import { NextFunction, Request, Response } from 'express'
+
+import { ApiKeyScope } from '../entities/ApiKey'
+import { UserRole } from '../entities/User'
+import { authenticateApiKey, isApiKeyFormat } from '../services/apiKeyService'
+import type { ApiKeyPrincipal } from '../types/auth'
+import { authMiddleware } from './auth'
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    apiKey?: ApiKeyPrincipal
+  }
+}
+
+const readApiKey = (req: Request): string | null => {
+  const header = req.headers['x-api-key']
+  if (typeof header === 'string' && header) return header
+  const bearer = req.headers.authorization?.split(' ')[1]
+  return bearer && isApiKeyFormat(bearer) ? bearer : null
+}
+
+/**
+ * Accepts an API key with `scope` (`X-API-Key` header, or `Authorization: Bearer blm_...`)
+ * and otherwise falls back to `authMiddleware`. Requests made with a key act as the owner of
+ * the key's license, without admin rights.
+ */
+export const apiKeyOrTokenAuth =
+  (scope: ApiKeyScope) => async (req: Request, res: Response, next: NextFunction) => {
+    const key = readApiKey(req)
+    if (!key) return authMiddleware(req, res, next)
+
+    const apiKey = await authenticateApiKey(key)
+    if (!apiKey) return res.status(401).json({ message: 'Invalid API key' })
+    if (!apiKey.scopes.includes(scope)) {
+      return res.status(403).json({ message: `API key does not have the ${scope} scope` })
+    }
+
+    // Keys act as the license owner; a license without one cannot be used
+    const owner = apiKey.license?.user
+    if (!owner) return res.status(403).json({ message: 'API key license has no owner' })
+    req.user = { userId: owner.id, role: UserRole.CUSTOMER, tokenVersion: owner.tokenVersion }
+    req.apiKey = { id: apiKey.id, licenseId: apiKey.licenseId, scopes: apiKey.scopes }
+    next()
+  }
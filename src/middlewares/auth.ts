@@ -1,5 +1,7 @@
 import { NextFunction, Request, Response } from 'express'
 
+import { AppDataSource } from '../data-source'
+import { User } from '../entities/User'
 import { TokenPayload, verifyToken } from '../utils/jwt'
 
 // Proper module augmentation (avoids `@typescript-eslint/no-namespace`)
@@ -9,7 +11,9 @@ declare module 'express-serve-static-core' {
   }
 }
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+const userRepository = AppDataSource.getRepository(User)
+
+export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization
 
   if (!authHeader) {
@@ -18,11 +22,22 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
 
   const token = authHeader.split(' ')[1]
 
+  let decoded: TokenPayload
   try {
-    const decoded = verifyToken(token)
-    req.user = decoded
-    next()
+    decoded = verifyToken(token)
   } catch {
     return res.status(401).json({ message: 'Invalid token' })
   }
+
+  // Deleted users and tokens issued before a password change are rejected
+  const user = await userRepository.findOne({
+    where: { id: decoded.userId },
+    select: { id: true, role: true, tokenVersion: true },
+  })
+  if (!user || user.tokenVersion !== decoded.tokenVersion) {
+    return res.status(401).json({ message: 'Token has been revoked' })
+  }
+
+  req.user = { userId: user.id, role: user.role, tokenVersion: user.tokenVersion }
+  next()
 }
@@ -0,0 +1,59 @@
+import { NextFunction, Request, Response } from 'express'
+
+import { AppDataSource } from '../data-source'
+import { License } from '../entities/License'
+import { consumeRateLimit, getRateLimitRule } from '../services/rateLimit'
+import type { RateLimitResult, RateLimitRoute } from '../types/rateLimit'
+
+const licenseRepository = AppDataSource.getRepository(License)
+
+/**
+ * License a request is made for: the API key's, otherwise the one named by `licenseKey` if
+ * the caller owns it. Anyone who learns a key must not be able to use up its owner's limit.
+ */
+const findRequestLicense = async (
+  req: Request,
+): Promise<Pick<License, 'id' | 'rateLimitTier'> | null> => {
+  const select = { id: true, rateLimitTier: true }
+  if (req.apiKey) return licenseRepository.findOne({ where: { id: req.apiKey.licenseId }, select })
+  const key: unknown = req.body?.licenseKey
+  const userId = req.user?.userId
+  return typeof key === 'string' && key && userId
+    ? licenseRepository.findOne({ where: { key, user: { id: userId } }, select })
+    : null
+}
+
+/**
+ * Sliding-window limit for `route`, counted per license (with the limits of its tier) or per
+ * client IP. Requests naming no license of the caller are counted per user, or per IP without
+ * one. Answers `429` with
+ * `Retry-After` once the limit is reached; when the counters cannot be read the request is
+ * let through.
+ */
+export const rateLimit =
+  (route: RateLimitRoute, options: { by: 'ip' | 'license' }) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    let result: RateLimitResult
+    try {
+      const license = options.by === 'license' ? await findRequestLicense(req) : null
+      const rule = getRateLimitRule(route, license?.rateLimitTier)
+      if (!rule) return next()
+      const subject = license
+        ? `license:${license.id}`
+        : options.by === 'license' && req.user
+          ? `user:${req.user.userId}`
+          : `ip:${req.ip}`
+      result = await consumeRateLimit(`${route}:${subject}`, rule)
+    } catch (error) {
+      console.error(`Rate limiting ${route} failed:`, error)
+      return next()
+    }
+
+    res.setHeader('RateLimit-Limit', String(result.limit))
+    res.setHeader('RateLimit-Remaining', String(result.remaining))
+    if (!result.allowed) {
+      res.setHeader('Retry-After', String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))))
+      return res.status(429).json({ message: 'Too many requests, please try again later' })
+    }
+    next()
+  }
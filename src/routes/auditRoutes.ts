@@ -0,0 +1,88 @@
+import { Router } from 'express'
+import { listAudit } from '../controllers/auditController'
+import { authMiddleware } from '../middlewares/auth'
+import { roleGuard } from '../middlewares/roleGuard'
+import { UserRole } from '../entities/User'
+
+const router = Router()
+
+router.use(authMiddleware)
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: List audit events (Admin only)
+ *     description: >
+ *       Changes to licenses, users, knowledge bases and their documents, the AI configuration,
+ *       API keys and ingestion jobs, with the acting user and the fields that changed. Secrets
+ *       such as passwords and keys are only marked as changed.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: actorUserId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: targetType
+ *         schema:
+ *           type: string
+ *           enum: [license, user, knowledge_base, document, ai_config, api_key, ingestion_job]
+ *       - in: query
+ *         name: targetId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           example: license.deactivate
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Earliest event time (inclusive)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Latest event time (exclusive)
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, minimum: 1, default: 1 }
+ *       - in: query
+ *         name: pageSize
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 20 }
+ *       - in: query
+ *         name: sortDir
+ *         schema:
+ *           type: string
+ *           enum: [ASC, DESC]
+ *     responses:
+ *       200:
+ *         description: Paginated audit events, newest first by default
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedAuditEventsResponse'
+ *       400:
+ *         description: Invalid query params
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', roleGuard([UserRole.ADMIN]), listAudit)
+
+export default router
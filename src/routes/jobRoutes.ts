@@ -0,0 +1,166 @@
+import { Router } from 'express'
+import { listJobs, getJob, retryJob, cancelJob } from '../controllers/jobController'
+import { authMiddleware } from '../middlewares/auth'
+import { roleGuard } from '../middlewares/roleGuard'
+import { UserRole } from '../entities/User'
+
+const router = Router()
+
+router.use(authMiddleware)
+
+/**
+ * @swagger
+ * /jobs:
+ *   get:
+ *     summary: List ingestion jobs (Admin only)
+ *     tags: [Ingestion Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: kbId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Only jobs of this knowledge base
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, minimum: 1, default: 1 }
+ *       - in: query
+ *         name: pageSize
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 20 }
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, updatedAt]
+ *       - in: query
+ *         name: sortDir
+ *         schema:
+ *           type: string
+ *           enum: [ASC, DESC]
+ *     responses:
+ *       200:
+ *         description: Paginated list of ingestion jobs
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedIngestionJobsResponse'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', roleGuard([UserRole.ADMIN]), listJobs)
+
+/**
+ * @swagger
+ * /jobs/{id}:
+ *   get:
+ *     summary: Get ingestion job progress with per-document status (Admin only)
+ *     tags: [Ingestion Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Ingestion job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IngestionJob'
+ *       404:
+ *         description: Ingestion job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/:id', roleGuard([UserRole.ADMIN]), getJob)
+
+/**
+ * @swagger
+ * /jobs/{id}/retry:
+ *   post:
+ *     summary: Re-queue the failed and cancelled documents of a job (Admin only)
+ *     tags: [Ingestion Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       202:
+ *         description: Documents re-queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IngestionJob'
+ *       400:
+ *         description: Nothing to retry
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Ingestion job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/retry', roleGuard([UserRole.ADMIN]), retryJob)
+
+/**
+ * @swagger
+ * /jobs/{id}/cancel:
+ *   post:
+ *     summary: Cancel a queued or running job (Admin only)
+ *     description: >
+ *       Queued documents are cancelled immediately. A document that is already being
+ *       processed is cancelled before embedding when possible, otherwise it finishes.
+ *     tags: [Ingestion Jobs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job cancelled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IngestionJob'
+ *       400:
+ *         description: Job already finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Ingestion job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post('/:id/cancel', roleGuard([UserRole.ADMIN]), cancelJob)
+
+export default router
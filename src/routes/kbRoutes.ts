@@ -10,6 +10,13 @@ import {
   deleteKnowledgeBaseDocument,
   reindexKnowledgeBase,
   downloadKnowledgeBaseDocument,
+  replaceKnowledgeBaseDocument,
+  listKnowledgeBaseDocumentVersions,
+  rollbackKnowledgeBaseDocument,
+  downloadKnowledgeBaseDocumentVersion,
+  listKnowledgeBaseDocuments,
+  createKnowledgeBaseDocumentLink,
+  downloadSignedKnowledgeBaseDocument,
 } from '../controllers/kbController'
 import { authMiddleware } from '../middlewares/auth'
 import { roleGuard } from '../middlewares/roleGuard'
@@ -18,6 +25,55 @@ import { upload } from '../utils/fileUpload'
 
 const router = Router()
 
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents/{documentId}/file/signed:
+ *   get:
+ *     summary: Download the current file of a document through a signed link (no bearer token)
+ *     description: >
+ *       Links come from chat citations, document listings or
+ *       `POST /knowledge-bases/{id}/documents/{documentId}/link`. A link bound to a license stops
+ *       working when the license becomes invalid or loses the knowledge base.
+ *     tags: [Knowledge Bases]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: expires
+ *         required: true
+ *         schema: { type: integer }
+ *       - in: query
+ *         name: signature
+ *         required: true
+ *         schema: { type: string }
+ *       - in: query
+ *         name: license
+ *         schema: { type: string, format: uuid }
+ *     responses:
+ *       200:
+ *         description: File stream with the Content-Type of the document's format
+ *       403:
+ *         description: Link invalid or expired, or license no longer valid
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Not found
+ */
+// Authenticated by the link signature, so it is registered before the auth middleware
+router.get('/:id/documents/:documentId/file/signed', downloadSignedKnowledgeBaseDocument)
+
 router.use(authMiddleware)
 
 /**
@@ -192,6 +248,12 @@ router.get('/:id', roleGuard([UserRole.ADMIN]), getKnowledgeBase)
  * /knowledge-bases/{id}:
  *   put:
  *     summary: Update a knowledge base (Admin only)
+ *     description: >
+ *       Changing the embedding provider, model or dimension deletes the knowledge base's
+ *       vectors and queues a reindex job of all its documents (`reindexJobId` in the response).
+ *       Until the job finishes, chat falls back to answers without KB context. Changing the
+ *       chunking settings also queues a reindex, but the current vectors keep serving until
+ *       each document has been re-chunked.
  *     tags: [Knowledge Bases]
  *     security:
  *       - bearerAuth: []
@@ -221,6 +283,75 @@ router.get('/:id', roleGuard([UserRole.ADMIN]), getKnowledgeBase)
  *                 type: string
  *                 nullable: true
  *                 description: Custom prompt instructions for this knowledge base
+ *               embeddingProvider:
+ *                 type: string
+ *                 enum: [OPENAI, GEMINI, VERTEX, OPENAI_COMPATIBLE]
+ *               embeddingModel:
+ *                 type: string
+ *               embeddingDimension:
+ *                 type: integer
+ *               retrievalMode:
+ *                 type: string
+ *                 enum: [vector, hybrid]
+ *                 nullable: true
+ *                 description: null = use the AI configuration default
+ *               ocrEnabled:
+ *                 type: boolean
+ *                 description: OCR scanned PDF pages (applies to documents ingested afterwards; reindex to re-read existing ones)
+ *               chunkingStrategy:
+ *                 type: string
+ *                 enum: [recursive, page, heading]
+ *               chunkSize:
+ *                 type: integer
+ *                 minimum: 100
+ *                 maximum: 8000
+ *               chunkOverlap:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 4000
+ *               chunkSeparators:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 nullable: true
+ *               topK:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 nullable: true
+ *                 description: null = RAG_TOP_K
+ *               minScore:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 nullable: true
+ *               maxContextChars:
+ *                 type: integer
+ *                 minimum: 500
+ *                 maximum: 200000
+ *                 nullable: true
+ *               noMatchPolicy:
+ *                 type: string
+ *                 enum: [refuse, global, warn]
+ *                 nullable: true
+ *                 description: null = use the AI configuration default
+ *               noMatchMessage:
+ *                 type: string
+ *                 nullable: true
+ *               reranker:
+ *                 type: string
+ *                 enum: [llm, cross_encoder, lexical]
+ *                 nullable: true
+ *                 description: null = no reranking
+ *               queryExpansion:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [standalone, multi_query, hyde]
+ *                 nullable: true
+ *                 description: null = search with the question as asked
+ *               llmOverrides:
+ *                 $ref: '#/components/schemas/LlmOverrides'
  *     responses:
  *       200:
  *         description: Knowledge base updated successfully
@@ -253,7 +384,15 @@ router.put('/:id', roleGuard([UserRole.ADMIN]), updateKnowledgeBase)
  * @swagger
  * /knowledge-bases/{id}/upload:
  *   post:
- *     summary: Upload multiple PDF files to a knowledge base (Admin only)
+ *     summary: Upload documents to a knowledge base (Admin only)
+ *     description: >
+ *       Accepts PDF, DOCX, TXT, Markdown (.md), HTML and CSV files. The format is detected
+ *       from the file extension, falling back to the MIME type. Files whose SHA-256 matches a
+ *       document already in the knowledge base (or another file of the same upload) are
+ *       duplicates: the upload is rejected, or with `onDuplicate=link` they are skipped and
+ *       the existing document ids are returned. Empty files and files that do not match their
+ *       format (e.g. a `.pdf` without a PDF header) are skipped and listed in `rejected`;
+ *       files without extractable text fail on their job item.
  *     tags: [Knowledge Bases]
  *     security:
  *       - bearerAuth: []
@@ -279,55 +418,46 @@ router.put('/:id', roleGuard([UserRole.ADMIN]), updateKnowledgeBase)
  *                 items:
  *                   type: string
  *                   format: binary
- *                 description: PDF files to upload (up to 10 files)
+ *                 description: Files to upload (up to 10 files)
+ *               onDuplicate:
+ *                 type: string
+ *                 enum: [reject, link]
+ *                 default: reject
  *     responses:
- *       201:
- *         description: PDF files uploaded and ingested successfully
+ *       200:
+ *         description: Every file was a duplicate (`onDuplicate=link`); nothing was queued
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 message:
- *                   type: string
- *                   example: 2 PDF file(s) uploaded and ingested successfully
- *                 documents:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       id:
- *                         type: string
- *                         format: uuid
- *                       fileName:
- *                         type: string
- *                       pageCount:
- *                         type: number
- *                       createdAt:
- *                         type: string
- *                         format: date-time
- *                 errors:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       fileName:
- *                         type: string
- *                       error:
- *                         type: string
- *                   description: Errors for files that failed to upload (if any)
+ *               $ref: '#/components/schemas/IngestionJobAccepted'
+ *       202:
+ *         description: >
+ *           Files stored and queued for ingestion. Poll `statusUrl` (`GET /jobs/{jobId}`)
+ *           for per-document progress.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IngestionJobAccepted'
  *       400:
- *         description: Bad request - No files uploaded or all files failed
+ *         description: >
+ *           Bad request - No files uploaded, unsupported file type, or every file was
+ *           rejected (see `rejected`)
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
+ *               $ref: '#/components/schemas/IngestionJobAccepted'
  *       404:
  *         description: Knowledge base not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: Duplicate files (`onDuplicate=reject`); nothing was stored
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DuplicateUploadResponse'
  *       403:
  *         description: Forbidden - Admin access required
  *         content:
@@ -335,7 +465,7 @@ router.put('/:id', roleGuard([UserRole.ADMIN]), updateKnowledgeBase)
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  *       500:
- *         description: Error uploading PDFs
+ *         description: Error uploading documents
  *         content:
  *           application/json:
  *             schema:
@@ -348,6 +478,12 @@ router.post('/:id/upload', roleGuard([UserRole.ADMIN]), upload.array('files', 10
  * /knowledge-bases/{id}/reindex:
  *   post:
  *     summary: Rebuild vector index for a knowledge base by re-ingesting stored PDFs (Admin only)
+ *     description: >
+ *       Queues an ingestion job. Existing chunks keep answering queries until each document
+ *       has been re-embedded, then they are replaced atomically. Documents whose file,
+ *       OCR setting, chunking settings and embedding model are unchanged since their last
+ *       index are skipped (item status `skipped`) unless `force` is set. Chunks with the
+ *       same text as an already stored chunk reuse its embedding.
  *     tags: [Knowledge Bases]
  *     security:
  *       - bearerAuth: []
@@ -359,9 +495,19 @@ router.post('/:id/upload', roleGuard([UserRole.ADMIN]), upload.array('files', 10
  *           type: string
  *           format: uuid
  *         description: Knowledge Base ID
+ *       - in: query
+ *         name: force
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Re-embed every document, even unchanged ones
  *     responses:
- *       200:
- *         description: Reindex completed
+ *       202:
+ *         description: Reindex queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/IngestionJobAccepted'
  *       400:
  *         description: No documents found for this knowledge base
  *       404:
@@ -439,7 +585,7 @@ router.delete(
  * @swagger
  * /knowledge-bases/{id}/documents/{documentId}/file:
  *   get:
- *     summary: Download/view a knowledge base document PDF (Admin or licensed user)
+ *     summary: Download/view the current file of a knowledge base document (Admin or licensed user)
  *     tags: [Knowledge Bases]
  *     security:
  *       - bearerAuth: []
@@ -458,7 +604,9 @@ router.delete(
  *           format: uuid
  *     responses:
  *       200:
- *         description: PDF file stream
+ *         description: >
+ *           File stream with the Content-Type of the document's format. HTML files are sent as
+ *           attachments.
  *       401:
  *         description: Unauthorized
  *       403:
@@ -468,6 +616,363 @@ router.delete(
  */
 router.get('/:id/documents/:documentId/file', downloadKnowledgeBaseDocument)
 
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents:
+ *   get:
+ *     summary: List the documents of a knowledge base with signed download links (Admin or licensed user)
+ *     tags: [Knowledge Bases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: page
+ *         schema: { type: integer, minimum: 1, default: 1 }
+ *       - in: query
+ *         name: pageSize
+ *         schema: { type: integer, minimum: 1, maximum: 200, default: 20 }
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [createdAt, updatedAt, fileName]
+ *       - in: query
+ *         name: sortDir
+ *         schema:
+ *           type: string
+ *           enum: [ASC, DESC]
+ *     responses:
+ *       200:
+ *         description: Paginated list of documents
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PaginatedDocumentsResponse'
+ *       403:
+ *         description: License not valid or knowledge base not attached to it
+ *       404:
+ *         description: Knowledge base not found
+ */
+router.get('/:id/documents', listKnowledgeBaseDocuments)
+
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents/{documentId}/link:
+ *   post:
+ *     summary: Create a signed, expiring download URL for a document (Admin or licensed user)
+ *     description: >
+ *       The URL works without a bearer token (e.g. as a Markdown link) and is bound to the
+ *       caller's license. Links created by admins are not bound to a license.
+ *     tags: [Knowledge Bases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateDocumentLinkRequest'
+ *     responses:
+ *       201:
+ *         description: Signed URL
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DocumentLink'
+ *       400:
+ *         description: Invalid link options
+ *       403:
+ *         description: License not valid or knowledge base not attached to it
+ *       404:
+ *         description: Document not found
+ */
+router.post('/:id/documents/:documentId/link', createKnowledgeBaseDocumentLink)
+
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents/{documentId}:
+ *   put:
+ *     summary: Upload a new version of a document (Admin only)
+ *     description: >
+ *       The document keeps its id and download URL. The new file is indexed in the background
+ *       and its vectors replace the previous ones in a single transaction, so chat never sees a
+ *       partially indexed document. Until then (or if indexing fails) the previous version stays
+ *       current. Previous versions and their files are kept.
+ *     tags: [Knowledge Bases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Knowledge Base ID
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Document ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       202:
+ *         description: Version stored and queued for indexing
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DocumentVersionAccepted'
+ *       400:
+ *         description: No file uploaded, unsupported file type, or empty or malformed file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Document not found in this knowledge base
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: File is identical to the current version
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Error replacing document
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.put(
+  '/:id/documents/:documentId',
+  roleGuard([UserRole.ADMIN]),
+  upload.single('file'),
+  replaceKnowledgeBaseDocument,
+)
+
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents/{documentId}/versions:
+ *   get:
+ *     summary: List the versions of a document, newest first (Admin only)
+ *     tags: [Knowledge Bases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Knowledge Base ID
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Document ID
+ *     responses:
+ *       200:
+ *         description: Version history
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DocumentVersionsResponse'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Document not found in this knowledge base
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Error listing document versions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/documents/:documentId/versions',
+  roleGuard([UserRole.ADMIN]),
+  listKnowledgeBaseDocumentVersions,
+)
+
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents/{documentId}/versions/{version}/rollback:
+ *   post:
+ *     summary: Make a previous version current again (Admin only)
+ *     description: >
+ *       Re-indexes the stored file of that version; it becomes current once its vectors have
+ *       replaced the current ones.
+ *     tags: [Knowledge Bases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Knowledge Base ID
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Document ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       202:
+ *         description: Rollback queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DocumentVersionAccepted'
+ *       400:
+ *         description: Invalid version, or the version is already current
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Document or version not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       409:
+ *         description: File of this version is no longer on disk
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       500:
+ *         description: Error rolling back document
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.post(
+  '/:id/documents/:documentId/versions/:version/rollback',
+  roleGuard([UserRole.ADMIN]),
+  rollbackKnowledgeBaseDocument,
+)
+
+/**
+ * @swagger
+ * /knowledge-bases/{id}/documents/{documentId}/versions/{version}/file:
+ *   get:
+ *     summary: Download the file of a specific document version (Admin only)
+ *     tags: [Knowledge Bases]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Knowledge Base ID
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Document ID
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: File stream with the Content-Type of the version's format
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: Document, version or file not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get(
+  '/:id/documents/:documentId/versions/:version/file',
+  roleGuard([UserRole.ADMIN]),
+  downloadKnowledgeBaseDocumentVersion,
+)
+
 /**
  * @swagger
  * /knowledge-bases/{id}:
@@ -7,7 +7,15 @@ import {
   getLicense,
   updateLicenseValidity,
   setLicenseKnowledgeBases,
+  setLicenseQuotas,
+  setLicenseLlmOverrides,
 } from '../controllers/licenseController'
+import {
+  createLicenseApiKey,
+  listLicenseApiKeys,
+  revokeLicenseApiKey,
+  rotateLicenseApiKey,
+} from '../controllers/apiKeyController'
 import { authMiddleware } from '../middlewares/auth'
 import { roleGuard } from '../middlewares/roleGuard'
 import { UserRole } from '../entities/User'
@@ -248,6 +256,96 @@ router.put('/:id', roleGuard([UserRole.ADMIN]), updateLicenseValidity)
  */
 router.put('/:id/knowledge-bases', roleGuard([UserRole.ADMIN]), setLicenseKnowledgeBases)
 
+/**
+ * @swagger
+ * /licenses/{id}/quotas:
+ *   put:
+ *     summary: Set monthly question/token quotas and the rate limit tier of a license (Admin only)
+ *     description: >
+ *       Quotas apply per calendar month (UTC). `null` removes a limit; omitted fields are kept.
+ *       When a quota is reached, `POST /rag/chat` answers 429 until the next month.
+ *       `rateLimitTier` selects the request limits of a `RATE_LIMIT_TIERS` entry.
+ *     tags: [Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetLicenseQuotasRequest'
+ *     responses:
+ *       200:
+ *         description: Updated license
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/License'
+ *       400:
+ *         description: Invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: License not found
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.put('/:id/quotas', roleGuard([UserRole.ADMIN]), setLicenseQuotas)
+
+/**
+ * @swagger
+ * /licenses/{id}/llm:
+ *   put:
+ *     summary: Set the LLM overrides of a license (Admin only)
+ *     description: >
+ *       Provider, model and sampling parameters used for this license's chat answers, layered
+ *       over the AI configuration. A knowledge base's own overrides win over the license's.
+ *       `null` removes the overrides.
+ *     tags: [Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SetLicenseLlmOverridesRequest'
+ *     responses:
+ *       200:
+ *         description: Updated license
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/License'
+ *       400:
+ *         description: Invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       404:
+ *         description: License not found
+ *       403:
+ *         description: Forbidden - Admin access required
+ */
+router.put('/:id/llm', roleGuard([UserRole.ADMIN]), setLicenseLlmOverrides)
+
 /**
  * @swagger
  * /licenses/{id}/deactivate:
@@ -348,4 +446,153 @@ router.patch('/:id/deactivate', roleGuard([UserRole.ADMIN]), deactivateLicense)
  */
 router.patch('/:id/activate', roleGuard([UserRole.ADMIN]), activateLicense)
 
+/**
+ * @swagger
+ * /licenses/{id}/api-keys:
+ *   get:
+ *     summary: List the API keys of a license (Admin or license owner)
+ *     description: Keys are listed with their prefix only.
+ *     tags: [Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: API keys, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Forbidden access to this license
+ *       404:
+ *         description: License not found
+ */
+router.get('/:id/api-keys', listLicenseApiKeys)
+
+/**
+ * @swagger
+ * /licenses/{id}/api-keys:
+ *   post:
+ *     summary: Create an API key for a license (Admin or license owner)
+ *     description: >
+ *       The key acts as the license owner on `/rag/chat` (scope `chat`) and `/rag/upload`
+ *       (scope `ingest`). It is returned only in this response; only its hash is stored.
+ *     tags: [Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CreateApiKeyRequest'
+ *     responses:
+ *       201:
+ *         description: Created key, including the secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKeyWithSecret'
+ *       400:
+ *         description: Invalid request body
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden access to this license
+ *       404:
+ *         description: License not found
+ */
+router.post('/:id/api-keys', createLicenseApiKey)
+
+/**
+ * @swagger
+ * /licenses/{id}/api-keys/{keyId}/rotate:
+ *   post:
+ *     summary: Replace the secret of an API key (Admin or license owner)
+ *     description: The previous secret stops working immediately; name and scopes are kept.
+ *     tags: [Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Rotated key, including the new secret
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKeyWithSecret'
+ *       403:
+ *         description: Forbidden access to this license
+ *       404:
+ *         description: License or API key not found
+ *       409:
+ *         description: API key has been revoked
+ */
+router.post('/:id/api-keys/:keyId/rotate', rotateLicenseApiKey)
+
+/**
+ * @swagger
+ * /licenses/{id}/api-keys/{keyId}:
+ *   delete:
+ *     summary: Revoke an API key (Admin or license owner)
+ *     tags: [Licenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Revoked key
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ApiKey'
+ *       403:
+ *         description: Forbidden access to this license
+ *       404:
+ *         description: License or API key not found
+ */
+router.delete('/:id/api-keys/:keyId', revokeLicenseApiKey)
+
 export default router
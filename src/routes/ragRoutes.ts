@@ -1,12 +1,12 @@
 import { Router } from 'express'
 
 import { chat, uploadDocument } from '../controllers/ragController'
-import { authMiddleware } from '../middlewares/auth'
+import { ApiKeyScope } from '../entities/ApiKey'
+import { apiKeyOrTokenAuth } from '../middlewares/apiKeyAuth'
+import { rateLimit } from '../middlewares/rateLimit'
 
 const router = Router()
 
-router.use(authMiddleware)
-
 /**
  * @swagger
  * /rag/chat:
@@ -16,9 +16,25 @@ router.use(authMiddleware)
  *       If the license has no knowledge base attached, the system will answer using global knowledge.
  *       If multiple knowledge bases are attached and `kbId` is not provided, the backend will auto-select the most relevant KB for the question.
  *       When the global provider is OpenAI, the backend may use OpenAI's `web_search` tool and return web citations.
+ *
+ *       Streaming is opt-in: send `Accept: text/event-stream` or `?stream=1` to receive Server-Sent Events.
+ *       `token` events carry `{ delta }`, the final `done` event carries `{ answer, sources, mode, kbIds }`,
+ *       and an `error` event carries `{ message }` if generation fails mid-stream.
+ *
+ *       Accepts a user token or an API key with the `chat` scope; with an API key the key's license
+ *       is used and `licenseKey` can be omitted.
  *     tags: [RAG]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: stream
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: ['1', 'true']
+ *         description: Stream the answer as Server-Sent Events
  *     requestBody:
  *       required: true
  *       content:
@@ -32,6 +48,10 @@ router.use(authMiddleware)
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ChatResponse'
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "event: token\ndata: {\"delta\":\"Hello\"}\n\nevent: done\ndata: {\"answer\":\"Hello\",\"sources\":[],\"mode\":\"kb\",\"kbIds\":[]}\n\n"
  *       401:
  *         description: Unauthorized
  *         content:
@@ -50,6 +70,14 @@ router.use(authMiddleware)
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
+ *       429:
+ *         description: >
+ *           Request rate limit or monthly question/token quota of the license exceeded
+ *           (see `Retry-After`)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QuotaExceededResponse'
  *       500:
  *         description: Error processing query
  *         content:
@@ -57,16 +85,25 @@ router.use(authMiddleware)
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/chat', chat)
+router.post(
+  '/chat',
+  apiKeyOrTokenAuth(ApiKeyScope.CHAT),
+  rateLimit('chat', { by: 'license' }),
+  chat,
+)
 
 /**
  * @swagger
  * /rag/upload:
  *   post:
  *     summary: Upload and ingest a document
+ *     description: >
+ *       Accepts a user token or an API key with the `ingest` scope; with an API key the key's
+ *       license is used and `licenseKey` can be omitted.
  *     tags: [RAG]
  *     security:
  *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -91,6 +128,6 @@ router.post('/chat', chat)
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.post('/upload', uploadDocument)
+router.post('/upload', apiKeyOrTokenAuth(ApiKeyScope.INGEST), uploadDocument)
 
 export default router
@@ -0,0 +1,63 @@
+import { Router } from 'express'
+import { getUsageSummary } from '../controllers/usageController'
+import { authMiddleware } from '../middlewares/auth'
+import { roleGuard } from '../middlewares/roleGuard'
+import { UserRole } from '../entities/User'
+
+const router = Router()
+
+router.use(authMiddleware)
+
+/**
+ * @swagger
+ * /usage:
+ *   get:
+ *     summary: Usage per license and month (Admin only)
+ *     description: >
+ *       Questions, ingested documents and LLM tokens per license and calendar month (UTC).
+ *       Ingestions started by admins have no license (`licenseId: null`); their tokens are
+ *       estimated from the embedded text length.
+ *     tags: [Usage]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: licenseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           example: '2025-01'
+ *         description: First month to include (YYYY-MM)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           example: '2025-12'
+ *         description: Last month to include (YYYY-MM)
+ *     responses:
+ *       200:
+ *         description: Usage summary, newest month first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UsageSummaryResponse'
+ *       400:
+ *         description: Invalid query params
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ *       403:
+ *         description: Forbidden - Admin access required
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+router.get('/', roleGuard([UserRole.ADMIN]), getUsageSummary)
+
+export default router
@@ -0,0 +1,23 @@
+import 'reflect-metadata'
+import { AppDataSource } from '../data-source'
+import { startIngestionWorker } from '../services/ingestionWorker'
+
+async function runWorker() {
+  try {
+    await AppDataSource.initialize()
+    console.log('Ingestion worker started')
+
+    const stop = startIngestionWorker()
+    const shutdown = () => {
+      stop()
+      AppDataSource.destroy().finally(() => process.exit(0))
+    }
+    process.on('SIGINT', shutdown)
+    process.on('SIGTERM', shutdown)
+  } catch (error) {
+    console.error('Error starting ingestion worker:', error)
+    process.exit(1)
+  }
+}
+
+runWorker()
@@ -0,0 +1,93 @@
+import 'reflect-metadata'
+import fs from 'fs'
+import path from 'path'
+import { AppDataSource } from '../data-source'
+import { Document } from '../entities/Document'
+import { DocumentVersion } from '../entities/DocumentVersion'
+import { getExtractor } from '../services/extractors'
+import { getFileStorage } from '../services/storage'
+import { LocalFileStorage } from '../services/storage/localFileStorage'
+import { resolveLegacyDocumentPath } from '../utils/documentFiles'
+
+/**
+ * Copies the source files of all documents and versions from the local uploads directory
+ * into the configured storage backend (`STORAGE_DRIVER`) and replaces the stored paths with
+ * storage keys. Safe to run again; rows whose key already exists in the backend are skipped.
+ *
+ *   yarn storage:migrate [--dry-run] [--delete-local]
+ */
+async function migrateStorage() {
+  const dryRun = process.argv.includes('--dry-run')
+  const deleteLocal = process.argv.includes('--delete-local')
+
+  try {
+    await AppDataSource.initialize()
+    const storage = getFileStorage()
+    const local = storage instanceof LocalFileStorage ? storage : null
+    console.log(`Migrating files into ${storage.name} storage${dryRun ? ' (dry run)' : ''}`)
+
+    const documentRepository = AppDataSource.getRepository(Document)
+    const versionRepository = AppDataSource.getRepository(DocumentVersion)
+    const rows: (Document | DocumentVersion)[] = [
+      ...(await documentRepository.find()),
+      ...(await versionRepository.find()),
+    ]
+
+    const counts = { copied: 0, updated: 0, unchanged: 0, missing: 0 }
+    const copiedFrom = new Set<string>()
+
+    for (const row of rows) {
+      const isKey = !path.isAbsolute(row.filePath)
+      if (isKey && (await storage.exists(row.filePath))) {
+        counts.unchanged++
+        continue
+      }
+
+      const sourcePath = resolveLegacyDocumentPath(row)
+      const key = isKey ? row.filePath : path.basename(sourcePath ?? row.filePath)
+      const label = `${row instanceof Document ? 'document' : 'version'} ${row.id}`
+
+      if (!(await storage.exists(key))) {
+        if (!sourcePath) {
+          console.warn(`Missing file for ${label} (${row.fileName})`)
+          counts.missing++
+          continue
+        }
+        // A local backend only needs the key when the file already sits at its place
+        const inPlace = local && path.resolve(local.resolvePath(key)) === path.resolve(sourcePath)
+        if (!inPlace) {
+          if (!dryRun) {
+            const data = await fs.promises.readFile(sourcePath)
+            await storage.put(key, data, getExtractor(row.format).contentType)
+          }
+          copiedFrom.add(sourcePath)
+          counts.copied++
+        }
+      }
+
+      if (row.filePath !== key) {
+        console.log(`${label}: ${row.filePath} -> ${key}`)
+        row.filePath = key
+        if (!dryRun) {
+          if (row instanceof Document) await documentRepository.save(row)
+          else await versionRepository.save(row)
+        }
+        counts.updated++
+      }
+    }
+
+    if (deleteLocal && !dryRun) {
+      for (const sourcePath of copiedFrom) await fs.promises.rm(sourcePath, { force: true })
+    }
+
+    console.log(
+      `Done: ${counts.copied} copied, ${counts.updated} rows updated, ${counts.unchanged} already migrated, ${counts.missing} missing`,
+    )
+    await AppDataSource.destroy()
+  } catch (error) {
+    console.error('Error migrating storage:', error)
+    process.exit(1)
+  }
+}
+
+migrateStorage()
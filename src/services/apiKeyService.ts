@@ -0,0 +1,89 @@
+import { randomBytes } from 'crypto'
+import { IsNull } from 'typeorm'
+
+import { AppDataSource } from '../data-source'
+import { ApiKey, ApiKeyScope } from '../entities/ApiKey'
+import type { ApiKeySummary } from '../types/auth'
+import { hashToken } from '../utils/tokens'
+
+const apiKeyRepository = AppDataSource.getRepository(ApiKey)
+
+// Lets the middleware tell keys from JWTs in the Authorization header
+const KEY_PREFIX = 'blm_'
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8
+
+// `lastUsedAt` is written at most once a minute per key
+const LAST_USED_RESOLUTION_MS = 60_000
+
+const generateApiKey = (): string => `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`
+
+export const isApiKeyFormat = (value: string): boolean => value.startsWith(KEY_PREFIX)
+
+export const toApiKeySummary = (apiKey: ApiKey): ApiKeySummary => ({
+  id: apiKey.id,
+  licenseId: apiKey.licenseId,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  lastUsedAt: apiKey.lastUsedAt,
+  rotatedAt: apiKey.rotatedAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt,
+})
+
+export const createApiKey = async (input: {
+  licenseId: string
+  name: string
+  scopes: ApiKeyScope[]
+  createdByUserId: string | null
+}): Promise<{ apiKey: ApiKey; key: string }> => {
+  const key = generateApiKey()
+  const apiKey = await apiKeyRepository.save(
+    apiKeyRepository.create({
+      ...input,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashToken(key),
+    }),
+  )
+  return { apiKey, key }
+}
+
+export const listApiKeys = async (licenseId: string): Promise<ApiKey[]> =>
+  apiKeyRepository.find({ where: { licenseId }, order: { createdAt: 'DESC' } })
+
+export const findApiKey = async (licenseId: string, id: string): Promise<ApiKey | null> =>
+  apiKeyRepository.findOneBy({ id, licenseId })
+
+/**
+ * Replaces the secret of the key; the previous one stops working immediately.
+ */
+export const rotateApiKey = async (apiKey: ApiKey): Promise<{ apiKey: ApiKey; key: string }> => {
+  const key = generateApiKey()
+  apiKey.prefix = key.slice(0, DISPLAY_PREFIX_LENGTH)
+  apiKey.keyHash = hashToken(key)
+  apiKey.rotatedAt = new Date()
+  return { apiKey: await apiKeyRepository.save(apiKey), key }
+}
+
+export const revokeApiKey = async (apiKey: ApiKey): Promise<ApiKey> => {
+  apiKey.revokedAt ??= new Date()
+  return apiKeyRepository.save(apiKey)
+}
+
+/**
+ * Returns the unrevoked key with its license and owner, or null. Records the time of use.
+ */
+export const authenticateApiKey = async (key: string): Promise<ApiKey | null> => {
+  const apiKey = await apiKeyRepository.findOne({
+    where: { keyHash: hashToken(key), revokedAt: IsNull() },
+    relations: ['license', 'license.user'],
+  })
+  if (!apiKey) return null
+
+  const now = new Date()
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    apiKey.lastUsedAt = now
+    await apiKeyRepository.update({ id: apiKey.id }, { lastUsedAt: now })
+  }
+  return apiKey
+}
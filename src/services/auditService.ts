@@ -0,0 +1,116 @@
+import { AppDataSource } from '../data-source'
+import { AuditEvent, AuditTargetType } from '../entities/AuditEvent'
+import type { AuditAction, AuditChanges, AuditEventFilters, AuditEventItem } from '../types/audit'
+import type { TokenPayload } from '../utils/jwt'
+
+const auditRepository = AppDataSource.getRepository(AuditEvent)
+
+// Only recorded as changed; their values never reach the log
+const SECRET_FIELDS = new Set(['password', 'key', 'keyHash', 'tokenHash', 'tokenVersion'])
+const IGNORED_FIELDS = new Set(['createdAt', 'updatedAt'])
+const REDACTED = '[redacted]'
+
+export type AuditSnapshot = Record<string, unknown>
+
+const toAuditValue = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.map(toAuditValue)
+  // Related entities are recorded by id
+  if (value && typeof value === 'object' && 'id' in value) return (value as { id: unknown }).id
+  return value
+}
+
+/**
+ * Plain copy of an entity's fields for comparison. Take it before mutating the entity.
+ */
+export const auditSnapshot = (entity: object | null | undefined): AuditSnapshot | null => {
+  if (!entity) return null
+  const snapshot: AuditSnapshot = {}
+  for (const [field, value] of Object.entries(entity)) {
+    if (!IGNORED_FIELDS.has(field)) snapshot[field] = toAuditValue(value)
+  }
+  return snapshot
+}
+
+const diffSnapshots = (
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null,
+): AuditChanges | null => {
+  const changes: AuditChanges = {}
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  for (const field of fields) {
+    const previous = before?.[field] ?? null
+    const next = after?.[field] ?? null
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue
+    changes[field] = SECRET_FIELDS.has(field)
+      ? { before: REDACTED, after: REDACTED }
+      : { before: previous, after: next }
+  }
+  return Object.keys(changes).length > 0 ? changes : null
+}
+
+/**
+ * Logs a change made by `actor`. `before` is null for creations and `after` for deletions.
+ * Like usage metering, auditing never fails the request, so errors are only logged.
+ */
+export const recordAuditEvent = async (
+  actor: TokenPayload | undefined,
+  event: {
+    action: AuditAction
+    targetType: AuditTargetType
+    targetId: string | null
+    before?: object | null
+    after?: object | null
+  },
+) => {
+  try {
+    const changes = diffSnapshots(auditSnapshot(event.before), auditSnapshot(event.after))
+    await auditRepository.save(
+      auditRepository.create({
+        actorUserId: actor?.userId ?? null,
+        action: event.action,
+        targetType: event.targetType,
+        targetId: event.targetId,
+        changes,
+      }),
+    )
+  } catch (error) {
+    console.error('Error recording audit event:', error)
+  }
+}
+
+/**
+ * Audit events matching the filters (`to` is exclusive) with the actor's email.
+ */
+export const listAuditEvents = async (
+  filters: AuditEventFilters,
+  page: { skip: number; take: number; sortDir: 'ASC' | 'DESC' },
+): Promise<[AuditEventItem[], number]> => {
+  const qb = auditRepository
+    .createQueryBuilder('event')
+    .leftJoin('event.actor', 'actor')
+    .addSelect(['actor.id', 'actor.email'])
+    .orderBy('event.createdAt', page.sortDir)
+    .skip(page.skip)
+    .take(page.take)
+
+  if (filters.actorUserId) qb.andWhere('event.actorUserId = :actorUserId', filters)
+  if (filters.targetType) qb.andWhere('event.targetType = :targetType', filters)
+  if (filters.targetId) qb.andWhere('event.targetId = :targetId', filters)
+  if (filters.action) qb.andWhere('event.action = :action', filters)
+  if (filters.from) qb.andWhere('event.createdAt >= :from', { from: filters.from })
+  if (filters.to) qb.andWhere('event.createdAt < :to', { to: filters.to })
+
+  const [events, total] = await qb.getManyAndCount()
+  const items = events.map(event => ({
+    id: event.id,
+    actorUserId: event.actorUserId,
+    actorEmail: event.actor?.email ?? null,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    changes: event.changes,
+    createdAt: event.createdAt,
+  }))
+  return [items, total]
+}
@@ -0,0 +1,106 @@
+import { randomUUID } from 'crypto'
+import { IsNull } from 'typeorm'
+
+import { AppDataSource } from '../data-source'
+import { RefreshToken } from '../entities/RefreshToken'
+import { User } from '../entities/User'
+import type { AuthTokens, RefreshResult } from '../types/auth'
+import { signToken } from '../utils/jwt'
+import { generateOpaqueToken, hashToken } from '../utils/tokens'
+
+const refreshTokenRepository = AppDataSource.getRepository(RefreshToken)
+const userRepository = AppDataSource.getRepository(User)
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.JWT_REFRESH_TTL_DAYS || 30)
+
+const refreshTokenExpiry = (): Date =>
+  new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+const signAccessToken = (user: Pick<User, 'id' | 'role' | 'tokenVersion'>): string =>
+  signToken({ userId: user.id, role: user.role, tokenVersion: user.tokenVersion })
+
+const revokeFamily = async (familyId: string) => {
+  await refreshTokenRepository.update({ familyId, revokedAt: IsNull() }, { revokedAt: new Date() })
+}
+
+/**
+ * Issues an access token and a refresh token starting a new family (one per login).
+ */
+export const issueAuthTokens = async (
+  user: Pick<User, 'id' | 'role' | 'tokenVersion'>,
+): Promise<AuthTokens> => {
+  const refreshToken = generateOpaqueToken()
+  await refreshTokenRepository.save(
+    refreshTokenRepository.create({
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      familyId: randomUUID(),
+      expiresAt: refreshTokenExpiry(),
+    }),
+  )
+  return { token: signAccessToken(user), refreshToken }
+}
+
+/**
+ * Exchanges a refresh token for a new token pair. The presented token is revoked; using
+ * it again (or losing the race to a concurrent refresh) revokes the whole family.
+ */
+export const rotateRefreshToken = async (presented: string): Promise<RefreshResult> => {
+  const current = await refreshTokenRepository.findOne({
+    where: { tokenHash: hashToken(presented) },
+    relations: ['user'],
+  })
+  if (!current) return { ok: false, reason: 'invalid' }
+
+  if (current.revokedAt) {
+    await revokeFamily(current.familyId)
+    return { ok: false, reason: 'reused' }
+  }
+  if (current.expiresAt.getTime() <= Date.now()) return { ok: false, reason: 'expired' }
+
+  return AppDataSource.transaction(async manager => {
+    const repository = manager.getRepository(RefreshToken)
+    const refreshToken = generateOpaqueToken()
+    const next = await repository.save(
+      repository.create({
+        userId: current.userId,
+        tokenHash: hashToken(refreshToken),
+        familyId: current.familyId,
+        expiresAt: refreshTokenExpiry(),
+      }),
+    )
+
+    const { affected } = await repository.update(
+      { id: current.id, revokedAt: IsNull() },
+      { revokedAt: new Date(), replacedById: next.id },
+    )
+    if (!affected) {
+      await repository.update(
+        { familyId: current.familyId, revokedAt: IsNull() },
+        { revokedAt: new Date() },
+      )
+      return { ok: false, reason: 'reused' } as const
+    }
+
+    return { ok: true, tokens: { token: signAccessToken(current.user), refreshToken } } as const
+  })
+}
+
+/**
+ * Logout: revokes the family of the presented refresh token. Unknown tokens are ignored.
+ */
+export const revokeRefreshToken = async (presented: string) => {
+  const current = await refreshTokenRepository.findOneBy({
+    tokenHash: hashToken(presented),
+  })
+  if (current) await revokeFamily(current.familyId)
+}
+
+/**
+ * Signs the user out everywhere: outstanding access tokens stop matching the bumped
+ * token version and all refresh tokens are revoked.
+ */
+export const revokeUserSessions = async (userId: string) => {
+  await userRepository.increment({ id: userId }, 'tokenVersion', 1)
+  await refreshTokenRepository.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() })
+}
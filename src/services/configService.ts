@@ -1,6 +1,7 @@
 import { AppDataSource } from '../data-source'
 import { Configuration } from '../entities/Configuration'
 import { LLMProvider } from '../entities/KnowledgeBase'
+import type { LlmOverrides, LlmSettings } from '../types/llm'
 
 const configRepository = AppDataSource.getRepository(Configuration)
 
@@ -46,3 +47,73 @@ export const getDefaultAIConfig = async (): Promise<Configuration> => {
   cachedAtMs = now
   return config
 }
+
+const LLM_SETTING_KEYS = [
+  'llmProvider',
+  'model',
+  'temperature',
+  'maxTokens',
+  'topP',
+  'topK',
+  'frequencyPenalty',
+  'presencePenalty',
+  'stopSequences',
+] as const
+
+/**
+ * Switching provider without naming a model uses that provider's default model, since the
+ * inherited model name belongs to another provider.
+ */
+const applyLlmOverrides = (base: LlmSettings, override: LlmOverrides): LlmSettings => {
+  const settings = { ...base }
+  if (
+    override.llmProvider &&
+    override.llmProvider !== settings.llmProvider &&
+    override.model === undefined
+  ) {
+    settings.model = null
+  }
+  for (const key of LLM_SETTING_KEYS) {
+    if (override[key] !== undefined) Object.assign(settings, { [key]: override[key] })
+  }
+  return settings
+}
+
+/**
+ * Chat model settings of the default configuration with each override applied in order
+ * (later ones win).
+ */
+export const resolveLlmSettings = async (
+  ...overrides: (LlmOverrides | null | undefined)[]
+): Promise<LlmSettings> => {
+  const config = await getDefaultAIConfig()
+  let settings = Object.fromEntries(LLM_SETTING_KEYS.map(key => [key, config[key]])) as LlmSettings
+
+  for (const override of overrides) {
+    if (override) settings = applyLlmOverrides(settings, override)
+  }
+  settings.llmProvider = settings.llmProvider || LLMProvider.OPENAI
+  return settings
+}
+
+/**
+ * The resolved settings followed by the configured fallbacks, in failover order. Each
+ * fallback is applied over the resolved settings, so it keeps their sampling parameters
+ * unless it sets its own.
+ */
+export const resolveLlmChain = async (
+  ...overrides: (LlmOverrides | null | undefined)[]
+): Promise<LlmSettings[]> => {
+  const primary = await resolveLlmSettings(...overrides)
+  const config = await getDefaultAIConfig()
+  const chain = [primary]
+  const seen = new Set([JSON.stringify(primary)])
+  for (const fallback of config.fallbackLlms ?? []) {
+    const settings = applyLlmOverrides(primary, fallback)
+    const key = JSON.stringify(settings)
+    if (seen.has(key)) continue
+    seen.add(key)
+    chain.push(settings)
+  }
+  return chain
+}
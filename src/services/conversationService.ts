@@ -0,0 +1,66 @@
+import { AppDataSource } from '../data-source'
+import { Conversation } from '../entities/Conversation'
+import { Message } from '../entities/Message'
+import type { ChatHistoryItem, RagAnswer } from '../types/rag'
+
+const conversationRepository = AppDataSource.getRepository(Conversation)
+const messageRepository = AppDataSource.getRepository(Message)
+
+// Matches the window `buildHistoryMessages` keeps, so we don't load more than the prompt uses.
+const HISTORY_LIMIT = 12
+const TITLE_MAX_CHARS = 80
+
+export const deriveConversationTitle = (question: string): string => {
+  const collapsed = String(question ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!collapsed) return 'New conversation'
+  return collapsed.length > TITLE_MAX_CHARS
+    ? `${collapsed.slice(0, TITLE_MAX_CHARS).trimEnd()}…`
+    : collapsed
+}
+
+export const loadConversationHistory = async (
+  conversationId: string,
+): Promise<ChatHistoryItem[]> => {
+  const latest = await messageRepository.find({
+    where: { conversationId },
+    order: { createdAt: 'DESC' },
+    take: HISTORY_LIMIT,
+  })
+  return latest.reverse().map(m => ({ role: m.role, content: m.content }))
+}
+
+/**
+ * Persists a question/answer pair (with the answer's retrieved sources) and bumps the
+ * conversation so it sorts first in the thread list. Returns the assistant message.
+ */
+export const appendExchange = async (
+  conversation: Conversation,
+  question: string,
+  result: RagAnswer,
+): Promise<Message> => {
+  await messageRepository.save(
+    messageRepository.create({
+      conversationId: conversation.id,
+      role: 'user',
+      content: question,
+    }),
+  )
+  const assistantMessage = await messageRepository.save(
+    messageRepository.create({
+      conversationId: conversation.id,
+      role: 'assistant',
+      content: result.answer,
+      sources: result.sources,
+      mode: result.mode,
+    }),
+  )
+
+  await conversationRepository.update(
+    { id: conversation.id },
+    { title: conversation.title ?? deriveConversationTitle(question) },
+  )
+
+  return assistantMessage
+}
@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+import type { RagSource } from '../types/rag'
+
+// Falls back to the JWT secret so existing deployments work without a new variable
+const LINK_SECRET = process.env.DOWNLOAD_URL_SECRET || process.env.JWT_SECRET || 'super-secret-key'
+
+export const DEFAULT_LINK_TTL_SECONDS = Number(process.env.DOWNLOAD_URL_TTL_SECONDS || 900)
+export const MAX_LINK_TTL_SECONDS = 7 * 24 * 60 * 60
+
+export type DocumentLinkTarget = {
+  kbId: string
+  documentId: string
+  /** License the link is bound to; null for links minted by admins */
+  licenseId: string | null
+}
+
+export type SignedDocumentLink = { url: string; expiresAt: Date }
+
+const sign = (target: DocumentLinkTarget, expires: number): string =>
+  createHmac('sha256', LINK_SECRET)
+    .update([target.kbId, target.documentId, target.licenseId ?? '', expires].join(':'))
+    .digest('base64url')
+
+/**
+ * Absolute when `PUBLIC_API_URL` is set, so links work from pages on other origins.
+ */
+const publicUrl = (path: string): string => {
+  const base = process.env.PUBLIC_API_URL?.trim().replace(/\/+$/, '')
+  return base ? `${base}${path}` : path
+}
+
+/**
+ * URL that downloads the document's current file without a bearer token until it expires.
+ * `page` adds a `#page=N` fragment so PDF viewers open on that page.
+ */
+export const createDocumentLink = (
+  target: DocumentLinkTarget,
+  options: { page?: number | null; ttlSeconds?: number } = {},
+): SignedDocumentLink => {
+  const ttlSeconds = Math.min(options.ttlSeconds ?? DEFAULT_LINK_TTL_SECONDS, MAX_LINK_TTL_SECONDS)
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds
+  const query = new URLSearchParams({ expires: String(expires), signature: sign(target, expires) })
+  if (target.licenseId) query.set('license', target.licenseId)
+
+  const path = `/knowledge-bases/${target.kbId}/documents/${target.documentId}/file/signed`
+  const fragment = options.page ? `#page=${options.page}` : ''
+  return { url: `${publicUrl(path)}?${query}${fragment}`, expiresAt: new Date(expires * 1000) }
+}
+
+/**
+ * Checks the signature and expiry of a link. Returns the license it is bound to
+ * (null for admin links), or undefined when the link is invalid or expired.
+ */
+export const verifyDocumentLink = (
+  kbId: string,
+  documentId: string,
+  query: { expires?: unknown; signature?: unknown; license?: unknown },
+): { licenseId: string | null } | undefined => {
+  const expires = Number(query.expires)
+  if (!Number.isInteger(expires) || expires * 1000 < Date.now()) return undefined
+  if (typeof query.signature !== 'string') return undefined
+  const licenseId = typeof query.license === 'string' && query.license ? query.license : null
+
+  const expected = Buffer.from(sign({ kbId, documentId, licenseId }, expires))
+  const actual = Buffer.from(query.signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined
+  return { licenseId }
+}
+
+/**
+ * Replaces the plain download paths of citations with signed links for the license.
+ */
+export const signSourceLinks = (sources: RagSource[], licenseId: string | null): RagSource[] =>
+  sources.map(source =>
+    source.kbId && source.documentId
+      ? {
+          ...source,
+          downloadUrl: createDocumentLink(
+            { kbId: source.kbId, documentId: source.documentId, licenseId },
+            { page: source.pageStart },
+          ).url,
+        }
+      : source,
+  )
@@ -0,0 +1,112 @@
+import { In } from 'typeorm'
+
+import { AppDataSource } from '../data-source'
+import { Document } from '../entities/Document'
+import { DocumentVersion } from '../entities/DocumentVersion'
+import type { JsonObject } from '../types/json'
+import { findExtractor } from './extractors'
+
+const versionRepository = AppDataSource.getRepository(DocumentVersion)
+
+/**
+ * Documents uploaded before versioning have no history rows; their current file becomes
+ * version `currentVersion` the first time the history is needed.
+ */
+const ensureVersionHistory = async (doc: Document) => {
+  const count = await versionRepository.count({ where: { documentId: doc.id } })
+  if (count > 0) return
+  await versionRepository.save(
+    versionRepository.create({
+      documentId: doc.id,
+      version: doc.currentVersion,
+      fileName: doc.fileName,
+      filePath: doc.filePath,
+      format: doc.format,
+      contentHash: doc.contentHash,
+      metadata: doc.metadata,
+      createdByUserId: null,
+      ingestedAt: doc.updatedAt,
+    }),
+  )
+}
+
+export const listDocumentVersions = async (doc: Document): Promise<DocumentVersion[]> => {
+  await ensureVersionHistory(doc)
+  return versionRepository.find({ where: { documentId: doc.id }, order: { version: 'DESC' } })
+}
+
+export const findDocumentVersion = async (
+  doc: Document,
+  version: number,
+): Promise<DocumentVersion | null> => {
+  await ensureVersionHistory(doc)
+  return versionRepository.findOne({ where: { documentId: doc.id, version } })
+}
+
+/**
+ * Records an uploaded file as the next version. It stays pending (the document keeps
+ * serving the current version) until the ingestion worker has indexed it.
+ */
+export const createDocumentVersion = async (
+  doc: Document,
+  file: Express.Multer.File,
+  storageKey: string,
+  contentHash: string,
+  createdByUserId: string | null,
+): Promise<DocumentVersion> => {
+  await ensureVersionHistory(doc)
+  const latest = await versionRepository.maximum('version', { documentId: doc.id })
+  return versionRepository.save(
+    versionRepository.create({
+      documentId: doc.id,
+      version: (latest ?? doc.currentVersion) + 1,
+      fileName: file.originalname,
+      filePath: storageKey,
+      format: findExtractor(file.mimetype, file.originalname)?.format ?? doc.format,
+      contentHash,
+      metadata: {
+        fileSize: file.size,
+        mimeType: file.mimetype,
+        uploadedAt: new Date().toISOString(),
+      },
+      createdByUserId,
+      ingestedAt: null,
+    }),
+  )
+}
+
+/**
+ * Makes an indexed version current. Called after its vectors replaced the previous ones.
+ */
+export const promoteDocumentVersion = async (
+  doc: Document,
+  version: DocumentVersion,
+  metadata: JsonObject,
+  indexFingerprint: string,
+) => {
+  version.metadata = metadata
+  version.ingestedAt = new Date()
+  doc.fileName = version.fileName
+  doc.filePath = version.filePath
+  doc.format = version.format
+  doc.metadata = metadata
+  doc.contentHash = version.contentHash
+  doc.indexFingerprint = indexFingerprint
+  doc.currentVersion = version.version
+  await AppDataSource.transaction(async manager => {
+    await manager.save(version)
+    await manager.save(doc)
+  })
+}
+
+/**
+ * Every stored file of the documents, including previous versions.
+ */
+export const getStoredFilePaths = async (documents: Document[]): Promise<string[]> => {
+  if (documents.length === 0) return []
+  const versions = await versionRepository.find({
+    where: { documentId: In(documents.map(doc => doc.id)) },
+    select: { filePath: true },
+  })
+  return [...documents.map(doc => doc.filePath), ...versions.map(version => version.filePath)]
+}
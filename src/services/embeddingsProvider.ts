@@ -1,22 +1,160 @@
 import { Embeddings } from '@langchain/core/embeddings'
+import { GoogleGenerativeAIEmbeddings } from '@langchain/google-genai'
+import { VertexAIEmbeddings } from '@langchain/google-vertexai'
 import { OpenAIEmbeddings } from '@langchain/openai'
 
-const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small' // 1536 dimensions
+import { EmbeddingProvider, KnowledgeBase } from '../entities/KnowledgeBase'
+import type { EmbeddingSpec, EmbeddingSpecInput } from '../types/embeddings'
+import { getDefaultAIConfig } from './configService'
 
-export class EmbeddingsProviderService {
-  private static cached: Embeddings | null = null
-  static async getEmbeddings(): Promise<Embeddings> {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not set in environment variables')
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProvider, string | null> = {
+  [EmbeddingProvider.OPENAI]: 'text-embedding-3-small',
+  [EmbeddingProvider.GEMINI]: 'text-embedding-004',
+  [EmbeddingProvider.VERTEX]: 'text-embedding-005',
+  [EmbeddingProvider.OPENAI_COMPATIBLE]: null,
+}
+
+// Native output sizes; models not listed here get their dimension from the first embedding.
+const KNOWN_EMBEDDING_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'text-embedding-004': 768,
+  'text-embedding-005': 768,
+  'text-multilingual-embedding-002': 768,
+  'gemini-embedding-001': 3072,
+}
+
+// Models that accept a shorter output dimension than their native size.
+const SUPPORTS_CUSTOM_DIMENSIONS = /^(text-embedding-3-|gemini-embedding-|text-embedding-00[45])/
+
+/**
+ * Spec of the vectors stored before embeddings became configurable.
+ */
+export const LEGACY_EMBEDDING_SPEC: EmbeddingSpec = {
+  provider: EmbeddingProvider.OPENAI,
+  model: 'text-embedding-3-small',
+  dimension: 1536,
+}
+
+/**
+ * Fills in the default model and the known dimension for a provider.
+ * Throws when the combination cannot be used (no model for a custom endpoint,
+ * or a custom dimension on a model with a fixed output size).
+ */
+export const resolveEmbeddingSpec = (input: EmbeddingSpecInput): EmbeddingSpec => {
+  const provider = input.provider ?? EmbeddingProvider.OPENAI
+  const model =
+    input.model?.trim() ||
+    (provider === EmbeddingProvider.OPENAI_COMPATIBLE
+      ? process.env.EMBEDDINGS_COMPATIBLE_MODEL?.trim()
+      : DEFAULT_EMBEDDING_MODELS[provider])
+  if (!model) throw new Error(`An embedding model is required for provider ${provider}`)
+
+  const known = KNOWN_EMBEDDING_DIMENSIONS[model] ?? null
+  const dimension = input.dimension ?? known
+  if (dimension !== null && known !== null && dimension !== known) {
+    if (dimension > known || !SUPPORTS_CUSTOM_DIMENSIONS.test(model)) {
+      throw new Error(`Model ${model} cannot produce ${dimension}-dimensional embeddings`)
     }
+  }
+  return { provider, model, dimension }
+}
+
+/**
+ * Embedding settings for a new knowledge base: explicit values win, then the
+ * defaults from the AI configuration.
+ */
+export const resolveDefaultEmbeddingSpec = async (
+  input: EmbeddingSpecInput = {},
+): Promise<EmbeddingSpec> => {
+  if (input.provider || input.model) return resolveEmbeddingSpec(input)
+  const config = await getDefaultAIConfig()
+  return resolveEmbeddingSpec({
+    provider: config.embeddingProvider,
+    model: config.embeddingModel,
+    dimension: input.dimension ?? config.embeddingDimension,
+  })
+}
+
+export const getKnowledgeBaseEmbeddingSpec = (kb: KnowledgeBase): EmbeddingSpec => ({
+  provider: kb.embeddingProvider ?? LEGACY_EMBEDDING_SPEC.provider,
+  model: kb.embeddingModel || LEGACY_EMBEDDING_SPEC.model,
+  dimension: kb.embeddingDimension ?? null,
+})
+
+export const isSameEmbeddingSpec = (a: EmbeddingSpec, b: EmbeddingSpec): boolean =>
+  a.provider === b.provider && a.model === b.model && a.dimension === b.dimension
+
+/**
+ * Only pass a dimension to the API when it differs from the model's native size,
+ * so models that don't support shortening keep working.
+ */
+const requestedDimension = (spec: EmbeddingSpec): number | undefined => {
+  const known = KNOWN_EMBEDDING_DIMENSIONS[spec.model]
+  return spec.dimension !== null && spec.dimension !== known ? spec.dimension : undefined
+}
+
+export class EmbeddingsProviderService {
+  private static cache = new Map<string, Embeddings>()
+
+  static async getEmbeddings(spec: EmbeddingSpec = LEGACY_EMBEDDING_SPEC): Promise<Embeddings> {
+    const cacheKey = JSON.stringify([spec.provider, spec.model, spec.dimension])
+    const cached = EmbeddingsProviderService.cache.get(cacheKey)
+    if (cached) return cached
+
+    const embeddings = EmbeddingsProviderService.create(spec)
+    EmbeddingsProviderService.cache.set(cacheKey, embeddings)
+    return embeddings
+  }
+
+  private static create(spec: EmbeddingSpec): Embeddings {
+    const dimensions = requestedDimension(spec)
+
+    switch (spec.provider) {
+      case EmbeddingProvider.OPENAI: {
+        if (!process.env.OPENAI_API_KEY) {
+          throw new Error('OPENAI_API_KEY is not set in environment variables')
+        }
+        return new OpenAIEmbeddings({
+          openAIApiKey: process.env.OPENAI_API_KEY,
+          model: spec.model,
+          dimensions,
+        })
+      }
+
+      case EmbeddingProvider.GEMINI: {
+        if (!process.env.GEMINI_API_KEY) throw new Error('GEMINI_API_KEY not set')
+        return new GoogleGenerativeAIEmbeddings({
+          apiKey: process.env.GEMINI_API_KEY,
+          model: spec.model,
+          outputDimensionality: dimensions,
+        })
+      }
+
+      case EmbeddingProvider.VERTEX: {
+        // Authenticates with Application Default Credentials (GOOGLE_APPLICATION_CREDENTIALS).
+        return new VertexAIEmbeddings({
+          model: spec.model,
+          dimensions,
+          location: process.env.VERTEX_LOCATION || undefined,
+        })
+      }
+
+      case EmbeddingProvider.OPENAI_COMPATIBLE: {
+        const baseURL = process.env.EMBEDDINGS_BASE_URL
+        if (!baseURL) throw new Error('EMBEDDINGS_BASE_URL not set')
+        return new OpenAIEmbeddings({
+          // Many self-hosted servers ignore the key but the client requires one.
+          openAIApiKey: process.env.EMBEDDINGS_API_KEY || 'not-needed',
+          model: spec.model,
+          dimensions,
+          configuration: { baseURL },
+        })
+      }
 
-    // Force using OpenAI embeddings for pgvector compatibility (1536 dims)
-    if (!EmbeddingsProviderService.cached) {
-      EmbeddingsProviderService.cached = new OpenAIEmbeddings({
-        openAIApiKey: process.env.OPENAI_API_KEY,
-        model: OPENAI_EMBEDDING_MODEL,
-      })
+      default:
+        throw new Error(`Unsupported embedding provider: ${String(spec.provider)}`)
     }
-    return EmbeddingsProviderService.cached
   }
 }
@@ -0,0 +1,15 @@
+import mammoth from 'mammoth'
+
+import { DocumentFormat } from '../../entities/Document'
+import type { DocumentExtractor } from '../../types/extraction'
+
+export const docxExtractor: DocumentExtractor = {
+  format: DocumentFormat.DOCX,
+  extensions: ['.docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  extract: async data => {
+    const result = await mammoth.extractRawText({ buffer: data })
+    return { text: result.value, pageCount: null, pages: [] }
+  },
+}
@@ -0,0 +1,35 @@
+import path from 'path'
+
+import { DocumentFormat } from '../../entities/Document'
+import type { DocumentExtractor } from '../../types/extraction'
+import { docxExtractor } from './docxExtractor'
+import { pdfExtractor } from './pdfExtractor'
+import { csvExtractor, htmlExtractor, markdownExtractor, txtExtractor } from './textExtractors'
+
+const extractors: DocumentExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  txtExtractor,
+  markdownExtractor,
+  htmlExtractor,
+  csvExtractor,
+]
+
+export const SUPPORTED_UPLOAD_EXTENSIONS = extractors.flatMap(extractor => extractor.extensions)
+
+/**
+ * Finds the extractor for an uploaded file. The extension wins because browsers often send
+ * `application/octet-stream` (or nothing useful) for Markdown and CSV files.
+ */
+export const findExtractor = (mimeType: string, fileName: string): DocumentExtractor | null => {
+  const ext = path.extname(fileName).toLowerCase()
+  if (ext) return extractors.find(extractor => extractor.extensions.includes(ext)) ?? null
+  const mime = mimeType.split(';')[0].trim().toLowerCase()
+  return extractors.find(extractor => extractor.mimeTypes.includes(mime)) ?? null
+}
+
+export const getExtractor = (format: DocumentFormat): DocumentExtractor => {
+  const extractor = extractors.find(candidate => candidate.format === format)
+  if (!extractor) throw new Error(`No extractor registered for format: ${format}`)
+  return extractor
+}
@@ -0,0 +1,58 @@
+import { DocumentFormat } from '../../entities/Document'
+import type { DocumentExtractor, ExtractedDocument } from '../../types/extraction'
+import type { OcrPageConfidence } from '../../types/ocr'
+import { extractPdfText, renderPdfPages } from '../../utils/documentFiles'
+import { getOcrEngine } from '../ocr'
+
+// Pages with fewer characters in their text layer are treated as scans
+const getOcrMinPageChars = (): number => Number(process.env.OCR_MIN_PAGE_CHARS || 30)
+
+// Tesseract is most accurate around 300 DPI; PDF pages render at 72 DPI at scale 1
+const OCR_RENDER_SCALE = 3
+
+/**
+ * Runs OCR on the pages whose text layer is empty or sparse and keeps the OCR text when it
+ * is longer than what the text layer had.
+ */
+const applyOcrFallback = async (
+  data: Buffer,
+  parsed: ExtractedDocument,
+): Promise<ExtractedDocument> => {
+  const minChars = getOcrMinPageChars()
+  const sparsePages = parsed.pages
+    .filter(page => page.text.trim().length < minChars)
+    .map(page => page.pageNumber)
+  if (sparsePages.length === 0) return parsed
+
+  const engine = getOcrEngine()
+  const pages = new Map(parsed.pages.map(page => [page.pageNumber, page]))
+  const confidences: OcrPageConfidence[] = []
+
+  await renderPdfPages(data, sparsePages, OCR_RENDER_SCALE, async (pageNumber, image) => {
+    const result = await engine.recognize(image)
+    const current = pages.get(pageNumber)
+    if (!current || result.text.trim().length <= current.text.trim().length) return
+    pages.set(pageNumber, { pageNumber, text: result.text })
+    confidences.push({ pageNumber, confidence: Math.round(result.confidence * 10) / 10 })
+  })
+
+  if (confidences.length === 0) return parsed
+  const merged = [...pages.values()]
+  return {
+    text: merged.map(page => page.text).join('\n\n'),
+    pageCount: parsed.pageCount,
+    pages: merged,
+    ocr: { engine: engine.name, pages: confidences },
+  }
+}
+
+export const pdfExtractor: DocumentExtractor = {
+  format: DocumentFormat.PDF,
+  extensions: ['.pdf'],
+  mimeTypes: ['application/pdf'],
+  contentType: 'application/pdf',
+  extract: async (data, options) => {
+    const parsed = await extractPdfText(data)
+    return options?.ocr ? applyOcrFallback(data, parsed) : parsed
+  },
+}
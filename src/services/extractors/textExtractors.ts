@@ -0,0 +1,72 @@
+import { parse } from 'csv-parse/sync'
+import { convert } from 'html-to-text'
+
+import { DocumentFormat } from '../../entities/Document'
+import type { DocumentExtractor, ExtractedDocument } from '../../types/extraction'
+
+// Strips a UTF-8 byte order mark, common in files exported from Office tools
+const decodeUtf8 = (data: Buffer): string => data.toString('utf8').replace(/^\uFEFF/, '')
+
+const unpaginated = (text: string): ExtractedDocument => ({ text, pageCount: null, pages: [] })
+
+export const txtExtractor: DocumentExtractor = {
+  format: DocumentFormat.TXT,
+  extensions: ['.txt'],
+  mimeTypes: ['text/plain'],
+  contentType: 'text/plain; charset=utf-8',
+  extract: async data => unpaginated(decodeUtf8(data)),
+}
+
+// Markdown is kept as-is: headings and lists help both chunking and the LLM
+export const markdownExtractor: DocumentExtractor = {
+  format: DocumentFormat.MARKDOWN,
+  extensions: ['.md', '.markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  contentType: 'text/markdown; charset=utf-8',
+  extract: async data => unpaginated(decodeUtf8(data)),
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  format: DocumentFormat.HTML,
+  extensions: ['.html', '.htm'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  contentType: 'text/html; charset=utf-8',
+  extract: async data =>
+    unpaginated(
+      convert(decodeUtf8(data), {
+        wordwrap: false,
+        selectors: [
+          { selector: 'a', options: { ignoreHref: true } },
+          { selector: 'img', format: 'skip' },
+          { selector: 'nav', format: 'skip' },
+          { selector: 'footer', format: 'skip' },
+        ],
+      }),
+    ),
+}
+
+/**
+ * One line per row with each value labelled by its column header, so a chunk holding only
+ * some rows of a spec sheet still says what every value means.
+ */
+export const csvExtractor: DocumentExtractor = {
+  format: DocumentFormat.CSV,
+  extensions: ['.csv'],
+  mimeTypes: ['text/csv', 'application/csv'],
+  contentType: 'text/csv; charset=utf-8',
+  extract: async data => {
+    const rows = parse(decodeUtf8(data), {
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    }) as string[][]
+    const [header = [], ...body] = rows
+    const lines = body.map(row =>
+      row
+        .map((value, i) => (value ? `${header[i] || `Column ${i + 1}`}: ${value}` : ''))
+        .filter(Boolean)
+        .join('; '),
+    )
+    return unpaginated(lines.filter(Boolean).join('\n'))
+  },
+}
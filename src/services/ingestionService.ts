@@ -0,0 +1,336 @@
+import { In, LessThan } from 'typeorm'
+
+import { AppDataSource } from '../data-source'
+import { Document, DocumentFormat } from '../entities/Document'
+import { DocumentVersion } from '../entities/DocumentVersion'
+import { IngestionJob, IngestionJobType } from '../entities/IngestionJob'
+import { IngestionItemStatus, IngestionJobItem } from '../entities/IngestionJobItem'
+import type { IngestionItemCounts, IngestionJobStatus } from '../types/ingestion'
+import type { EmbeddingSpec } from '../types/embeddings'
+import type { ChunkingSettings } from '../types/rag'
+import { hashToken } from '../utils/tokens'
+import { UsageEventType } from '../entities/UsageEvent'
+import { promoteDocumentVersion } from './documentVersionService'
+import { getKnowledgeBaseEmbeddingSpec } from './embeddingsProvider'
+import { getExtractor } from './extractors'
+import { getChunkingSettings } from './rag/ragChunking'
+import { ragService } from './ragService'
+import { getFileStorage } from './storage'
+import { recordUsageEvent } from './usageService'
+
+const jobRepository = AppDataSource.getRepository(IngestionJob)
+const itemRepository = AppDataSource.getRepository(IngestionJobItem)
+const documentRepository = AppDataSource.getRepository(Document)
+const versionRepository = AppDataSource.getRepository(DocumentVersion)
+
+const ACTIVE_STATUSES = [
+  IngestionItemStatus.QUEUED,
+  IngestionItemStatus.PARSING,
+  IngestionItemStatus.EMBEDDING,
+]
+const IN_PROGRESS_STATUSES = [IngestionItemStatus.PARSING, IngestionItemStatus.EMBEDDING]
+
+const getStaleLockMs = (): number => {
+  const v = Number(process.env.INGESTION_STALE_LOCK_MS || 15 * 60 * 1000)
+  return Number.isFinite(v) && v > 0 ? v : 15 * 60 * 1000
+}
+
+const getMaxAttempts = (): number => {
+  const v = Number(process.env.INGESTION_MAX_ATTEMPTS || 3)
+  return Number.isInteger(v) && v > 0 ? v : 3
+}
+
+export const enqueueIngestionJob = async (params: {
+  type: IngestionJobType
+  knowledgeBaseId: string
+  documents: Document[]
+  createdByUserId?: string | null
+  /** Replace/rollback jobs: the version of the (single) document to index and promote */
+  documentVersion?: DocumentVersion | null
+}): Promise<IngestionJob> => {
+  return await AppDataSource.transaction(async manager => {
+    const job = await manager.save(
+      manager.create(IngestionJob, {
+        type: params.type,
+        knowledgeBaseId: params.knowledgeBaseId,
+        createdByUserId: params.createdByUserId ?? null,
+        cancelledAt: null,
+      }),
+    )
+    job.items = await manager.save(
+      params.documents.map(doc =>
+        manager.create(IngestionJobItem, {
+          jobId: job.id,
+          documentId: doc.id,
+          documentVersionId: params.documentVersion?.id ?? null,
+          fileName: params.documentVersion?.fileName ?? doc.fileName,
+          status: IngestionItemStatus.QUEUED,
+        }),
+      ),
+    )
+    return job
+  })
+}
+
+export const countItemsByStatus = (items: IngestionJobItem[]): IngestionItemCounts => {
+  const counts = Object.fromEntries(
+    Object.values(IngestionItemStatus).map(status => [status, 0]),
+  ) as IngestionItemCounts
+  for (const item of items) counts[item.status]++
+  return counts
+}
+
+export const getJobStatus = (job: IngestionJob): IngestionJobStatus => {
+  const items = job.items ?? []
+  const counts = countItemsByStatus(items)
+  if (items.some(item => ACTIVE_STATUSES.includes(item.status))) {
+    return counts.queued === items.length ? 'queued' : 'running'
+  }
+  if (job.cancelledAt) return 'cancelled'
+  return counts.failed > 0 ? 'completed_with_errors' : 'completed'
+}
+
+/**
+ * Claims the oldest queued item of a non-cancelled job. `SKIP LOCKED` lets several
+ * worker processes poll the same table without handing out an item twice.
+ */
+export const claimNextIngestionItem = async (): Promise<IngestionJobItem | null> => {
+  return await AppDataSource.transaction(async manager => {
+    const item = await manager
+      .getRepository(IngestionJobItem)
+      .createQueryBuilder('item')
+      .innerJoin('item.job', 'job')
+      .where('item.status = :status', { status: IngestionItemStatus.QUEUED })
+      .andWhere('job.cancelledAt IS NULL')
+      .orderBy('item.createdAt', 'ASC')
+      .setLock('pessimistic_write', undefined, ['item'])
+      .setOnLocked('skip_locked')
+      .getOne()
+    if (!item) return null
+
+    item.status = IngestionItemStatus.PARSING
+    item.lockedAt = new Date()
+    item.attempts += 1
+    item.error = null
+    return await manager.save(item)
+  })
+}
+
+/**
+ * Items left in parsing/embedding by a crashed worker are re-queued (indexing a document
+ * is atomic, so re-running it is safe), or failed once they ran out of attempts.
+ */
+export const requeueStaleIngestionItems = async () => {
+  const staleBefore = new Date(Date.now() - getStaleLockMs())
+  const stale = await itemRepository.find({
+    where: { status: In(IN_PROGRESS_STATUSES), lockedAt: LessThan(staleBefore) },
+  })
+
+  for (const item of stale) {
+    const exhausted = item.attempts >= getMaxAttempts()
+    await itemRepository.update(
+      { id: item.id },
+      {
+        status: exhausted ? IngestionItemStatus.FAILED : IngestionItemStatus.QUEUED,
+        lockedAt: null,
+        error: exhausted ? 'Worker stopped while processing this document' : null,
+        finishedAt: exhausted ? new Date() : null,
+      },
+    )
+  }
+}
+
+const finishItem = async (
+  item: IngestionJobItem,
+  status: IngestionItemStatus,
+  error: string | null = null,
+) => {
+  await itemRepository.update(
+    { id: item.id },
+    { status, error, lockedAt: null, finishedAt: new Date() },
+  )
+}
+
+const isJobCancelled = async (jobId: string): Promise<boolean> => {
+  const job = await jobRepository.findOne({ where: { id: jobId } })
+  return !job || !!job.cancelledAt
+}
+
+/**
+ * Why a file has no text to index, reported on its job item.
+ */
+const describeMissingText = (format: DocumentFormat, ocrEnabled: boolean): string => {
+  if (format !== DocumentFormat.PDF) {
+    return `No extractable text found in ${format.toUpperCase()} file`
+  }
+  return ocrEnabled
+    ? 'No text found in PDF, even with OCR'
+    : 'No extractable text found in PDF (might be scanned/image-only PDF; enable OCR on the knowledge base)'
+}
+
+/**
+ * Identifies everything that shapes a document's chunks and vectors. The file hash stands
+ * in for the extracted text; OCR changes what is extracted from the same file.
+ */
+const computeIndexFingerprint = (
+  contentHash: string,
+  ocrEnabled: boolean,
+  chunking: ChunkingSettings,
+  spec: EmbeddingSpec,
+): string =>
+  hashToken(
+    JSON.stringify({
+      contentHash,
+      ocrEnabled,
+      chunking,
+      embedding: [spec.provider, spec.model],
+    }),
+  )
+
+export const processIngestionItem = async (item: IngestionJobItem) => {
+  try {
+    const doc = await documentRepository.findOne({
+      where: { id: item.documentId },
+      relations: ['knowledgeBase'],
+    })
+    if (!doc) throw new Error('Document no longer exists')
+
+    // Replace/rollback items index a specific version; it only becomes current once indexed
+    const version = item.documentVersionId
+      ? await versionRepository.findOne({ where: { id: item.documentVersionId } })
+      : null
+    if (item.documentVersionId && !version) throw new Error('Document version no longer exists')
+    const source = version ?? doc
+
+    const storage = getFileStorage()
+    if (!(await storage.exists(source.filePath))) throw new Error('File not found in storage')
+    const data = await storage.get(source.filePath)
+
+    const ocrEnabled = doc.knowledgeBase.ocrEnabled
+    const spec = getKnowledgeBaseEmbeddingSpec(doc.knowledgeBase)
+    const contentHash = hashToken(data)
+    const fingerprint = computeIndexFingerprint(
+      contentHash,
+      ocrEnabled,
+      getChunkingSettings(doc.knowledgeBase),
+      spec,
+    )
+
+    // Incremental reindex: same file, extraction, chunking and model, and the vectors are
+    // still there (changing the model drops them)
+    if (
+      !version &&
+      doc.indexFingerprint === fingerprint &&
+      (await ragService.countDocumentVectors(doc.knowledgeBaseId, doc.id, spec)) > 0
+    ) {
+      await finishItem(item, IngestionItemStatus.SKIPPED)
+      return
+    }
+
+    const parsed = await getExtractor(source.format).extract(data, {
+      ocr: ocrEnabled,
+    })
+    if (!parsed.text.trim()) throw new Error(describeMissingText(source.format, ocrEnabled))
+
+    if (await isJobCancelled(item.jobId)) {
+      await finishItem(item, IngestionItemStatus.CANCELLED)
+      return
+    }
+    await itemRepository.update(
+      { id: item.id },
+      { status: IngestionItemStatus.EMBEDDING, lockedAt: new Date() },
+    )
+    const startedAt = Date.now()
+
+    const metadata = { ...(source.metadata ?? {}) }
+    if (parsed.pageCount !== null) metadata.pageCount = parsed.pageCount
+    // Per-page confidence lets admins spot scans that need a better source file
+    if (parsed.ocr) metadata.ocr = parsed.ocr
+    else delete metadata.ocr
+
+    // Chunks of the previous version keep serving chat until this swap commits
+    const ingested = await ragService.ingestDocument(
+      doc.knowledgeBaseId,
+      parsed.text,
+      {
+        fileName: source.fileName,
+        documentId: doc.id,
+        version: version?.version ?? doc.currentVersion,
+        format: source.format,
+        ...(parsed.pageCount !== null ? { pageCount: parsed.pageCount } : {}),
+        sourceUrl: `/knowledge-bases/${doc.knowledgeBaseId}/documents/${doc.id}/file`,
+      },
+      parsed.pages,
+    )
+
+    if (version) {
+      version.contentHash = contentHash
+      await promoteDocumentVersion(doc, version, metadata, fingerprint)
+    } else {
+      doc.metadata = metadata
+      doc.contentHash = contentHash
+      doc.indexFingerprint = fingerprint
+      await documentRepository.save(doc)
+    }
+
+    const job = await jobRepository.findOne({ where: { id: item.jobId } })
+    await recordUsageEvent({
+      type: UsageEventType.INGESTION,
+      userId: job?.createdByUserId ?? null,
+      kbIds: [doc.knowledgeBaseId],
+      provider: ingested.provider,
+      model: ingested.model,
+      promptTokens: ingested.estimatedTokens,
+      tokensEstimated: true,
+      latencyMs: Date.now() - startedAt,
+    })
+
+    await finishItem(item, IngestionItemStatus.DONE)
+  } catch (error: unknown) {
+    console.error(`Error ingesting document ${item.documentId} (${item.fileName}):`, error)
+    await finishItem(
+      item,
+      IngestionItemStatus.FAILED,
+      error instanceof Error ? error.message : 'Unknown error',
+    )
+  }
+}
+
+/**
+ * Cancels queued items. Items already being parsed/embedded finish their current step
+ * and are marked cancelled before embedding when possible.
+ */
+export const cancelIngestionJob = async (job: IngestionJob) => {
+  job.cancelledAt = new Date()
+  await jobRepository.save(job)
+  await itemRepository.update(
+    { jobId: job.id, status: IngestionItemStatus.QUEUED },
+    { status: IngestionItemStatus.CANCELLED, finishedAt: new Date() },
+  )
+}
+
+/**
+ * Re-queues failed and cancelled items with a fresh set of attempts. Returns how many items
+ * were re-queued.
+ */
+export const retryIngestionJob = async (job: IngestionJob): Promise<number> => {
+  const result = await itemRepository.update(
+    {
+      jobId: job.id,
+      status: In([IngestionItemStatus.FAILED, IngestionItemStatus.CANCELLED]),
+    },
+    {
+      status: IngestionItemStatus.QUEUED,
+      error: null,
+      attempts: 0,
+      lockedAt: null,
+      finishedAt: null,
+    },
+  )
+  const requeued = result.affected ?? 0
+  if (requeued > 0 && job.cancelledAt) {
+    job.cancelledAt = null
+    await jobRepository.save(job)
+  }
+  return requeued
+}
@@ -0,0 +1,41 @@
+import {
+  claimNextIngestionItem,
+  processIngestionItem,
+  requeueStaleIngestionItems,
+} from './ingestionService'
+
+const getPollIntervalMs = (): number => {
+  const v = Number(process.env.INGESTION_POLL_MS || 2000)
+  return Number.isFinite(v) && v >= 100 ? v : 2000
+}
+
+/**
+ * Polls the Postgres-backed ingestion queue and processes one document at a time.
+ * Safe to run in several processes at once. Returns a stop function.
+ */
+export const startIngestionWorker = (): (() => void) => {
+  let timer: NodeJS.Timeout | null = null
+  let stopped = false
+
+  const tick = async () => {
+    try {
+      await requeueStaleIngestionItems()
+      let item = await claimNextIngestionItem()
+      while (item && !stopped) {
+        await processIngestionItem(item)
+        item = stopped ? null : await claimNextIngestionItem()
+      }
+    } catch (error) {
+      console.error('Ingestion worker error:', error)
+    } finally {
+      if (!stopped) timer = setTimeout(tick, getPollIntervalMs())
+    }
+  }
+
+  void tick()
+
+  return () => {
+    stopped = true
+    if (timer) clearTimeout(timer)
+  }
+}
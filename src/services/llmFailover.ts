@@ -0,0 +1,201 @@
+import { BaseMessage } from '@langchain/core/messages'
+
+import { LLMProvider } from '../entities/KnowledgeBase'
+import type { LlmSettings } from '../types/llm'
+import { resolveLlmChain } from './configService'
+import { LLMProviderService } from './llmProvider'
+
+type Circuit = { failures: number; openUntil: number }
+
+// Streaming calls report each chunk so the timeout restarts; see `callWithTimeout`.
+type LlmCall<T> = (settings: LlmSettings, signal: AbortSignal, onProgress: () => void) => Promise<T>
+
+// Consecutive transient failures per provider and model; an open circuit skips that model
+// until the cooldown ends, then a single failure opens it again. Other models of the same
+// provider stay available as fallbacks.
+const circuits = new Map<string, Circuit>()
+
+const circuitKey = (settings: LlmSettings): string =>
+  `${settings.llmProvider}/${settings.model ?? 'default'}`
+
+const TRANSIENT_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529])
+const TRANSIENT_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+])
+
+const envNumber = (name: string, fallback: number, min = 0): number => {
+  const raw = process.env[name]
+  const v = Number(raw)
+  return raw && Number.isFinite(v) && v >= min ? v : fallback
+}
+
+const getRetryPolicy = () => ({
+  maxRetries: Math.floor(envNumber('LLM_MAX_RETRIES', 2)),
+  baseDelayMs: envNumber('LLM_RETRY_BASE_MS', 500),
+  failureThreshold: Math.floor(envNumber('LLM_CIRCUIT_FAILURES', 5, 1)),
+  cooldownMs: envNumber('LLM_CIRCUIT_COOLDOWN_MS', 30_000),
+})
+
+/**
+ * How long an LLM call may wait for the provider: `LLM_TIMEOUT_MS_<PROVIDER>`, then
+ * `LLM_TIMEOUT_MS` (60 s). Streamed calls wait that long for each chunk, not for the whole answer.
+ */
+export const getLlmTimeoutMs = (provider: LLMProvider): number =>
+  envNumber(`LLM_TIMEOUT_MS_${provider}`, envNumber('LLM_TIMEOUT_MS', 60_000, 1), 1)
+
+const getStatus = (error: unknown): number | null => {
+  if (!error || typeof error !== 'object') return null
+  const { status, response } = error as { status?: unknown; response?: { status?: unknown } }
+  const value = status ?? response?.status
+  return typeof value === 'number' ? value : null
+}
+
+/**
+ * Rate limits, timeouts, overloaded or unreachable providers. Other errors (bad request,
+ * invalid key) would fail the same way again.
+ */
+export const isTransientLlmError = (error: unknown): boolean => {
+  const status = getStatus(error)
+  if (status !== null) return TRANSIENT_STATUSES.has(status)
+  const code = (error as { code?: unknown } | null)?.code
+  if (typeof code === 'string' && TRANSIENT_CODES.has(code)) return true
+  const message = error instanceof Error ? error.message : ''
+  return /rate.?limit|overloaded|timed out|socket hang up|fetch failed/i.test(message)
+}
+
+export const isLlmCircuitOpen = (settings: LlmSettings): boolean =>
+  (circuits.get(circuitKey(settings))?.openUntil ?? 0) > Date.now()
+
+const recordFailure = (settings: LlmSettings) => {
+  const { failureThreshold, cooldownMs } = getRetryPolicy()
+  const key = circuitKey(settings)
+  const circuit = circuits.get(key) ?? { failures: 0, openUntil: 0 }
+  circuit.failures += 1
+  if (circuit.failures >= failureThreshold) {
+    if (!isLlmCircuitOpen(settings)) {
+      console.warn(`LLM circuit for ${key} opened for ${cooldownMs} ms`)
+    }
+    circuit.openUntil = Date.now() + cooldownMs
+  }
+  circuits.set(key, circuit)
+}
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+/**
+ * Aborts the call when the provider stays silent for the timeout. Each `onProgress` restarts
+ * it, so a long answer that keeps streaming is not cut off.
+ */
+const callWithTimeout = async <T>(
+  settings: LlmSettings,
+  call: LlmCall<T>,
+  parent?: AbortSignal,
+): Promise<T> => {
+  const timeoutMs = getLlmTimeoutMs(settings.llmProvider)
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(parent?.reason)
+  parent?.addEventListener('abort', onAbort, { once: true })
+  let timer = setTimeout(() => controller.abort(), timeoutMs)
+  const onProgress = () => {
+    if (controller.signal.aborted) return
+    clearTimeout(timer)
+    timer = setTimeout(() => controller.abort(), timeoutMs)
+  }
+  try {
+    return await call(settings, controller.signal, onProgress)
+  } catch (error) {
+    if (controller.signal.aborted && !parent?.aborted) {
+      throw new Error(
+        `LLM ${settings.llmProvider} timed out after ${timeoutMs} ms without a response`,
+      )
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    parent?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * Runs `call` with each LLM of `chain` in order until one succeeds. Transient errors are
+ * retried with exponential backoff before moving on, and providers with an open circuit are
+ * skipped (unless every one is open). `canRetry` returning false (e.g. once text was
+ * streamed to the client) stops at the first error.
+ */
+export const runWithFailover = async <T>(
+  chain: LlmSettings[],
+  call: LlmCall<T>,
+  options: { signal?: AbortSignal; canRetry?: () => boolean } = {},
+): Promise<{ result: T; settings: LlmSettings; fallback: boolean }> => {
+  const { maxRetries, baseDelayMs } = getRetryPolicy()
+  const available = chain.filter(settings => !isLlmCircuitOpen(settings))
+  const candidates = available.length > 0 ? available : chain
+  let lastError: unknown = new Error('No LLM configured')
+
+  for (const [index, settings] of candidates.entries()) {
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (attempt > 0) {
+        const backoff = baseDelayMs * 2 ** (attempt - 1)
+        await delay(backoff + Math.random() * backoff * 0.2, options.signal)
+      }
+      try {
+        const result = await callWithTimeout(settings, call, options.signal)
+        circuits.delete(circuitKey(settings))
+        return { result, settings, fallback: settings !== chain[0] }
+      } catch (error) {
+        if (options.signal?.aborted || options.canRetry?.() === false) throw error
+        lastError = error
+        if (!isTransientLlmError(error)) break
+        recordFailure(settings)
+        if (isLlmCircuitOpen(settings)) break
+      }
+    }
+    const next = candidates[index + 1]
+    if (next) {
+      console.warn(
+        `LLM ${settings.llmProvider}/${settings.model ?? 'default'} failed, falling back to ${next.llmProvider}/${next.model ?? 'default'}:`,
+        lastError,
+      )
+    }
+  }
+  throw lastError
+}
+
+/**
+ * Invokes the first LLM of `chain` that answers (the default chain when omitted).
+ */
+export const invokeWithFailover = async (
+  chain: LlmSettings[] | undefined,
+  input: BaseMessage[],
+  signal?: AbortSignal,
+): Promise<unknown> => {
+  const llms = chain ?? (await resolveLlmChain())
+  const { result } = await runWithFailover(
+    llms,
+    async (settings, callSignal) => {
+      const llm = await LLMProviderService.getLLM(settings)
+      return (await llm.invoke(input, { signal: callSignal })) as unknown
+    },
+    { signal },
+  )
+  return result
+}
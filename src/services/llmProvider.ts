@@ -4,14 +4,20 @@ import { ChatGoogleGenerativeAI } from '@langchain/google-genai'
 import { ChatOpenAI } from '@langchain/openai'
 
 import { LLMProvider } from '../entities/KnowledgeBase'
-import { getDefaultAIConfig } from './configService'
+import type { LlmSettings } from '../types/llm'
+import { resolveLlmSettings } from './configService'
 
-let cachedKey: string | null = null
-let cachedLLM: BaseLanguageModel | null = null
+// One client per distinct configuration, so knowledge bases with their own model don't
+// rebuild each other's client. The oldest is dropped when settings keep changing.
+const MAX_CACHED_CLIENTS = 32
+const clients = new Map<string, BaseLanguageModel>()
 
 export class LLMProviderService {
-  static async getLLM(): Promise<BaseLanguageModel> {
-    const config = await getDefaultAIConfig()
+  /**
+   * Chat model for `settings`, or for the default AI configuration when omitted.
+   */
+  static async getLLM(settings?: LlmSettings): Promise<BaseLanguageModel> {
+    const config = settings ?? (await resolveLlmSettings())
     const provider = config.llmProvider || LLMProvider.OPENAI
 
     const cacheKey = JSON.stringify({
@@ -26,7 +32,17 @@ export class LLMProviderService {
       stopSequences: config.stopSequences,
     })
 
-    if (cachedKey === cacheKey && cachedLLM) return cachedLLM
+    const cached = clients.get(cacheKey)
+    if (cached) return cached
+
+    const llm = LLMProviderService.create(provider, config)
+    if (clients.size >= MAX_CACHED_CLIENTS) clients.delete(clients.keys().next().value as string)
+    clients.set(cacheKey, llm)
+    return llm
+  }
+
+  // Retries are left to `runWithFailover`, which can also switch providers.
+  private static create(provider: LLMProvider, config: LlmSettings): BaseLanguageModel {
     switch (provider) {
       case LLMProvider.OPENAI: {
         if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY not set')
@@ -37,6 +53,7 @@ export class LLMProviderService {
         const openAIParams: ChatOpenAIParams = {
           openAIApiKey: process.env.OPENAI_API_KEY,
           model,
+          maxRetries: 0,
         }
 
         if (!isGpt5Family && config.temperature !== null && config.temperature !== undefined) {
@@ -50,10 +67,7 @@ export class LLMProviderService {
         if (config.presencePenalty !== null && config.presencePenalty !== undefined)
           openAIParams.presencePenalty = config.presencePenalty
         if (config.stopSequences) openAIParams.stop = config.stopSequences
-        const llm = new ChatOpenAI(openAIParams)
-        cachedKey = cacheKey
-        cachedLLM = llm
-        return llm
+        return new ChatOpenAI(openAIParams)
       }
 
       case LLMProvider.GEMINI: {
@@ -66,11 +80,9 @@ export class LLMProviderService {
           topP: config.topP ?? 1.0,
           topK: config.topK ?? 0.0,
           stopSequences: config.stopSequences ?? undefined,
+          maxRetries: 0,
         }
-        const llm = new ChatGoogleGenerativeAI(geminiConfig)
-        cachedKey = cacheKey
-        cachedLLM = llm
-        return llm
+        return new ChatGoogleGenerativeAI(geminiConfig)
       }
 
       case LLMProvider.ANTHROPIC: {
@@ -83,19 +95,18 @@ export class LLMProviderService {
           topP: config.topP ?? 1.0,
           topK: config.topK ?? 0.0,
           stopSequences: config.stopSequences ?? undefined,
+          maxRetries: 0,
         }
-        const llm = new ChatAnthropic(anthropicConfig) as BaseLanguageModel
-        cachedKey = cacheKey
-        cachedLLM = llm
-        return llm
+        return new ChatAnthropic(anthropicConfig) as BaseLanguageModel
       }
 
       default: {
         if (!process.env.OPENAI_API_KEY) throw new Error('OPENAI_API_KEY not set')
-        const llm = new ChatOpenAI({ model: 'gpt-4o', openAIApiKey: process.env.OPENAI_API_KEY })
-        cachedKey = cacheKey
-        cachedLLM = llm
-        return llm
+        return new ChatOpenAI({
+          model: 'gpt-4o',
+          openAIApiKey: process.env.OPENAI_API_KEY,
+          maxRetries: 0,
+        })
       }
     }
   }
@@ -0,0 +1,61 @@
+import type { MailTransport } from '../../types/mail'
+import { ConsoleMailTransport, FileMailTransport, SmtpMailTransport } from './mailTransports'
+
+let transport: MailTransport | null = null
+
+const createMailTransport = (): MailTransport => {
+  const from = process.env.MAIL_FROM || 'no-reply@beauty.local'
+  const configured = process.env.MAIL_TRANSPORT?.trim()
+  // The console transport logs live reset and verification tokens, so production must opt in
+  if (!configured && process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_TRANSPORT must be set in production')
+  }
+  const kind = (configured || 'console').toLowerCase()
+
+  switch (kind) {
+    case 'smtp':
+      return new SmtpMailTransport(from)
+    case 'file':
+      return new FileMailTransport(from, process.env.MAIL_FILE_DIR || 'tmp/mail')
+    case 'console':
+      return new ConsoleMailTransport(from)
+    default:
+      throw new Error(`Unsupported MAIL_TRANSPORT: ${kind}`)
+  }
+}
+
+export const getMailTransport = (): MailTransport => {
+  if (!transport) transport = createMailTransport()
+  return transport
+}
+
+// Links point at the frontend, which posts the token back to the API
+const buildAppLink = (pathname: string, token: string): string => {
+  const url = new URL(pathname, process.env.APP_URL || 'http://localhost:5173')
+  url.searchParams.set('token', token)
+  return url.toString()
+}
+
+export const sendPasswordResetEmail = async (to: string, token: string, expiresAt: Date) => {
+  const link = buildAppLink('/reset-password', token)
+  await getMailTransport().send({
+    to,
+    subject: 'Reset your password',
+    text:
+      `We received a request to reset your password.\n\n` +
+      `Open this link to choose a new one: ${link}\n\n` +
+      `The link can be used once and expires at ${expiresAt.toISOString()}. ` +
+      `If you did not request a reset, ignore this email.`,
+  })
+}
+
+export const sendVerificationEmail = async (to: string, token: string, expiresAt: Date) => {
+  const link = buildAppLink('/verify-email', token)
+  await getMailTransport().send({
+    to,
+    subject: 'Verify your email address',
+    text:
+      `Open this link to verify your email address: ${link}\n\n` +
+      `The link expires at ${expiresAt.toISOString()}.`,
+  })
+}
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer, { Transporter } from 'nodemailer'
+
+import type { MailMessage, MailTransport } from '../../types/mail'
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter: Transporter
+
+  constructor(private from: string) {
+    if (!process.env.SMTP_HOST) throw new Error('SMTP_HOST not set')
+    const port = Number(process.env.SMTP_PORT || 587)
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    })
+  }
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: this.from, ...message })
+  }
+}
+
+/**
+ * Writes each message as a JSON file so development setups and tests can read the links.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(
+    private from: string,
+    private dir: string,
+  ) {}
+
+  async send(message: MailMessage) {
+    await fs.mkdir(this.dir, { recursive: true })
+    const sentAt = new Date()
+    const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+    const file = path.join(this.dir, `${sentAt.getTime()}-${safeTo}.json`)
+    await fs.writeFile(file, JSON.stringify({ from: this.from, ...message, sentAt }, null, 2))
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  constructor(private from: string) {}
+
+  async send(message: MailMessage) {
+    console.log(`Mail from ${this.from} to ${message.to}: ${message.subject}\n${message.text}`)
+  }
+}
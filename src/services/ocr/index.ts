@@ -0,0 +1,9 @@
+import type { OcrEngine } from '../../types/ocr'
+import { TesseractOcrEngine } from './tesseractOcrEngine'
+
+let engine: OcrEngine | null = null
+
+export const getOcrEngine = (): OcrEngine => {
+  if (!engine) engine = new TesseractOcrEngine()
+  return engine
+}
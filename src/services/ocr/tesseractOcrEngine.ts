@@ -0,0 +1,39 @@
+import { createWorker, Worker } from 'tesseract.js'
+
+import type { OcrEngine, OcrResult } from '../../types/ocr'
+
+/**
+ * Local Tesseract (WebAssembly) engine. The worker and its language data are loaded on
+ * first use and reused. Languages come from `OCR_LANGUAGES` (e.g. `eng+deu`); set
+ * `OCR_LANG_PATH` to serve traineddata files locally instead of downloading them.
+ */
+export class TesseractOcrEngine implements OcrEngine {
+  readonly name = 'tesseract'
+  private worker: Promise<Worker> | null = null
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      const languages = (process.env.OCR_LANGUAGES || 'eng').split('+').filter(Boolean)
+      // tesseract.js reports language-loading failures only through `errorHandler` (the
+      // createWorker promise never settles), so the handler rejects the pending worker.
+      this.worker = new Promise<Worker>((resolve, reject) => {
+        createWorker(languages, undefined, {
+          langPath: process.env.OCR_LANG_PATH || undefined,
+          cachePath: process.env.OCR_CACHE_PATH || undefined,
+          errorHandler: (error: unknown) => reject(new Error(`Tesseract error: ${String(error)}`)),
+        }).then(resolve, reject)
+      }).catch((error: unknown) => {
+        // Allow a later document to retry (e.g. after a failed language download)
+        this.worker = null
+        throw error
+      })
+    }
+    return this.worker
+  }
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(image)
+    return { text: data.text, confidence: data.confidence }
+  }
+}
@@ -1,10 +1,16 @@
 import axios from 'axios'
+import type { Readable } from 'stream'
 import type {
   OpenAIResponsesCreateRequest,
   OpenAIResponsesCreateResponse,
+  OpenAIResponsesStreamEvent,
+  OpenAIResponsesUsage,
   OpenAIWebSearchResponse,
   WebSearchParams,
 } from '../types/openai'
+import type { TokenUsage } from '../types/usage'
+
+const OPENAI_RESPONSES_URL = 'https://api.openai.com/v1/responses'
 
 function isRecord(v: unknown): v is Record<string, unknown> {
   return typeof v === 'object' && v !== null
@@ -38,6 +44,83 @@ function extractTextFromResponsesApi(responseBody: unknown): string {
   return (directText || textParts.join('\n')).trim()
 }
 
+function toTokenUsage(usage: OpenAIResponsesUsage | undefined): TokenUsage | null {
+  if (!usage) return null
+  return { promptTokens: usage.input_tokens ?? 0, completionTokens: usage.output_tokens ?? 0 }
+}
+
+function parseSseEvent(rawEvent: string): OpenAIResponsesStreamEvent | null {
+  const data = rawEvent
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n')
+  if (!data || data === '[DONE]') return null
+  try {
+    const parsed: unknown = JSON.parse(data)
+    return isRecord(parsed) ? (parsed as OpenAIResponsesStreamEvent) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Calls the Responses API with `stream: true`, forwarding `response.output_text.delta` events
+ * to `onDelta`. Returns the full text (from `response.completed` when present).
+ */
+async function streamResponsesApi(
+  body: OpenAIResponsesCreateRequest,
+  params: WebSearchParams,
+  onDelta: (delta: string) => void,
+): Promise<OpenAIWebSearchResponse> {
+  const resp = await axios.post<Readable>(
+    OPENAI_RESPONSES_URL,
+    { ...body, stream: true },
+    {
+      headers: {
+        Authorization: `Bearer ${params.apiKey}`,
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      timeout: 60_000,
+      responseType: 'stream',
+      signal: params.signal,
+    },
+  )
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let streamedText = ''
+  let completedText = ''
+  let usage: TokenUsage | null = null
+
+  for await (const chunk of resp.data) {
+    buffer += decoder.decode(chunk as Buffer, { stream: true }).replace(/\r\n/g, '\n')
+
+    let sep = buffer.indexOf('\n\n')
+    while (sep !== -1) {
+      const event = parseSseEvent(buffer.slice(0, sep))
+      buffer = buffer.slice(sep + 2)
+      sep = buffer.indexOf('\n\n')
+      if (!event) continue
+
+      if (event.type === 'response.output_text.delta' && typeof event.delta === 'string') {
+        streamedText += event.delta
+        onDelta(event.delta)
+      } else if (event.type === 'response.completed') {
+        completedText = extractTextFromResponsesApi(event.response)
+        usage = toTokenUsage(event.response?.usage)
+      } else if (event.type === 'error' || event.type === 'response.failed') {
+        throw new Error(
+          event.error?.message || event.message || 'OpenAI Responses API stream failed',
+        )
+      }
+    }
+  }
+
+  return { answerMarkdown: (completedText || streamedText).trim(), usage }
+}
+
 export async function openAIWebSearchAnswer(
   params: WebSearchParams,
 ): Promise<OpenAIWebSearchResponse> {
@@ -70,19 +153,18 @@ export async function openAIWebSearchAnswer(
     body.temperature = params.temperature
   }
 
-  const resp = await axios.post<OpenAIResponsesCreateResponse>(
-    'https://api.openai.com/v1/responses',
-    body,
-    {
-      headers: {
-        Authorization: `Bearer ${params.apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      timeout: 60_000,
+  if (params.onDelta) return await streamResponsesApi(body, params, params.onDelta)
+
+  const resp = await axios.post<OpenAIResponsesCreateResponse>(OPENAI_RESPONSES_URL, body, {
+    headers: {
+      Authorization: `Bearer ${params.apiKey}`,
+      'Content-Type': 'application/json',
     },
-  )
+    timeout: 60_000,
+    signal: params.signal,
+  })
 
   const text = extractTextFromResponsesApi(resp.data)
   const outputText = typeof resp.data?.output_text === 'string' ? resp.data.output_text : ''
-  return { answerMarkdown: text || outputText }
+  return { answerMarkdown: text || outputText, usage: toTokenUsage(resp.data?.usage) }
 }
@@ -0,0 +1,141 @@
+import { Document } from '@langchain/core/documents'
+import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { ChunkingStrategy, KnowledgeBase } from '../../entities/KnowledgeBase'
+import type { ChunkingSettings, IngestPage } from '../../types/rag'
+
+const PAGE_SEPARATOR = '\n\n'
+
+// Markdown ATX headings; DOCX, PDF and HTML text has none, so those fall back to size-based chunks.
+const HEADING_LINE = /^#{1,6}[ \t]+\S.*$/gm
+
+/**
+ * Settings that determine chunk boundaries; part of a document's index fingerprint.
+ */
+export const getChunkingSettings = (
+  kb: Pick<KnowledgeBase, 'chunkingStrategy' | 'chunkSize' | 'chunkOverlap' | 'chunkSeparators'>,
+): ChunkingSettings => ({
+  strategy: kb.chunkingStrategy ?? ChunkingStrategy.RECURSIVE,
+  chunkSize: kb.chunkSize,
+  chunkOverlap: kb.chunkOverlap,
+  separators: kb.chunkSeparators?.length ? kb.chunkSeparators : null,
+})
+
+type PageOffset = { pageNumber: number; offset: number }
+
+const pageAtOffset = (pageOffsets: PageOffset[], offset: number): number => {
+  let pageNumber = pageOffsets[0].pageNumber
+  for (const p of pageOffsets) {
+    if (p.offset > offset) break
+    pageNumber = p.pageNumber
+  }
+  return pageNumber
+}
+
+/**
+ * Splits into the sections that start at each heading; sections longer than a chunk are
+ * split further. Every chunk is a substring of `text`, so page offsets still apply.
+ */
+const splitByHeadings = async (
+  text: string,
+  splitter: RecursiveCharacterTextSplitter,
+  chunkSize: number,
+): Promise<string[]> => {
+  const starts = [0, ...Array.from(text.matchAll(HEADING_LINE), match => match.index)]
+  const chunks: string[] = []
+  for (let i = 0; i < starts.length; i++) {
+    const section = text.slice(starts[i], starts[i + 1] ?? text.length).trim()
+    if (!section) continue
+    if (section.length <= chunkSize) chunks.push(section)
+    else chunks.push(...(await splitter.splitText(section)))
+  }
+  return chunks
+}
+
+/**
+ * Chunks that never span two pages, each tagged with its page number.
+ */
+const splitByPages = async (
+  pages: IngestPage[],
+  metadata: Record<string, unknown>,
+  splitter: RecursiveCharacterTextSplitter,
+  chunkSize: number,
+): Promise<Document[]> => {
+  const documents: Document[] = []
+  for (const page of pages) {
+    const text = page.text.trim()
+    const chunks = text.length <= chunkSize ? [text] : await splitter.splitText(text)
+    for (const chunk of chunks) {
+      documents.push(
+        new Document({
+          pageContent: chunk,
+          metadata: { ...metadata, pageStart: page.pageNumber, pageEnd: page.pageNumber },
+        }),
+      )
+    }
+  }
+  return documents
+}
+
+/**
+ * Splits a document into chunks. When per-page text is available, every chunk gets
+ * `pageStart`/`pageEnd` metadata so answers can point to the exact pages.
+ */
+export async function splitIntoChunks(
+  text: string,
+  metadata: Record<string, unknown>,
+  settings: ChunkingSettings,
+  pages?: IngestPage[],
+): Promise<Document[]> {
+  const splitter = new RecursiveCharacterTextSplitter({
+    chunkSize: settings.chunkSize,
+    chunkOverlap: settings.chunkOverlap,
+    ...(settings.separators ? { separators: settings.separators } : {}),
+  })
+  const splitText = (input: string): Promise<string[]> =>
+    settings.strategy === ChunkingStrategy.HEADING
+      ? splitByHeadings(input, splitter, settings.chunkSize)
+      : splitter.splitText(input)
+
+  const usablePages = (pages ?? []).filter(p => p.text.trim().length > 0)
+  if (usablePages.length === 0) {
+    if (settings.strategy === ChunkingStrategy.HEADING) {
+      return (await splitText(text)).map(
+        chunk => new Document({ pageContent: chunk, metadata: { ...metadata } }),
+      )
+    }
+    // LangChain expects an array of metadata objects aligned with texts.
+    // Passing a plain object can result in missing per-chunk metadata → "unknown" sources.
+    return await splitter.createDocuments([text], [metadata])
+  }
+  if (settings.strategy === ChunkingStrategy.PAGE) {
+    return await splitByPages(usablePages, metadata, splitter, settings.chunkSize)
+  }
+
+  // Join pages and remember where each one starts so chunks can be mapped back to page numbers.
+  let fullText = ''
+  const pageOffsets: PageOffset[] = []
+  for (const page of usablePages) {
+    if (fullText) fullText += PAGE_SEPARATOR
+    pageOffsets.push({ pageNumber: page.pageNumber, offset: fullText.length })
+    fullText += page.text
+  }
+
+  const chunks = await splitText(fullText)
+
+  // Chunks are (trimmed) substrings in document order; overlapping chunks start after the
+  // previous chunk's start, so searching from there keeps the mapping linear.
+  let searchFrom = 0
+  let previous = { pageStart: usablePages[0].pageNumber, pageEnd: usablePages[0].pageNumber }
+
+  return chunks.map(chunk => {
+    const start = fullText.indexOf(chunk, searchFrom)
+    if (start !== -1) {
+      searchFrom = start + 1
+      previous = {
+        pageStart: pageAtOffset(pageOffsets, start),
+        pageEnd: pageAtOffset(pageOffsets, start + chunk.length - 1),
+      }
+    }
+    return new Document({ pageContent: chunk, metadata: { ...metadata, ...previous } })
+  })
+}
@@ -0,0 +1,32 @@
+import { Document } from '@langchain/core/documents'
+
+// Standard RRF constant; dampens the influence of the very top ranks.
+const RRF_K = 60
+
+/**
+ * Reciprocal rank fusion of several ranked result lists (e.g. vector and keyword search).
+ * Chunks are matched by `Document.id`. The fused rank only depends on positions, so each
+ * chunk keeps the best score it had in the input lists rather than a fusion score.
+ */
+export const reciprocalRankFusion = (
+  lists: [Document, number][][],
+  limit: number,
+): [Document, number][] => {
+  if (lists.length === 0) return []
+  const fused = new Map<string, { doc: Document; score: number; rankScore: number }>()
+
+  lists.forEach((results, listIndex) => {
+    results.forEach(([doc, score], rank) => {
+      const key = doc.id ?? `${listIndex}:${rank}`
+      const entry = fused.get(key) ?? { doc, score, rankScore: 0 }
+      entry.score = Math.max(entry.score, score)
+      entry.rankScore += 1 / (RRF_K + rank + 1)
+      fused.set(key, entry)
+    })
+  })
+
+  return Array.from(fused.values())
+    .sort((a, b) => b.rankScore - a.rankScore)
+    .slice(0, limit)
+    .map(({ doc, score }) => [doc, score] as [Document, number])
+}
@@ -1,5 +1,7 @@
+import { Document } from '@langchain/core/documents'
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages'
 import { BuildGlobalMessagesParams, BuildMessagesParams, ChatHistoryItem } from '../../types/rag'
+import type { TokenUsage } from '../../types/usage'
 
 export function trimInstructions(
   promptInstructions: string | null,
@@ -14,6 +16,7 @@ export function buildSystemRules(trimmedInstructions: string | null): string {
   return [
     trimmedInstructions ? `Knowledge base instructions:\n${trimmedInstructions}` : null,
     `You are a RAG assistant. Answer using ONLY the provided CONTEXT and the conversation history.`,
+    `CONTEXT blocks are numbered like [1], [2]. Cite the blocks you rely on inline using the same bracketed numbers (e.g. "... at 40°C [2]."). Never cite a number that is not in CONTEXT. When a block header lists pages (e.g. "p. 37"), mention the page when referring the user to the document.`,
     `Return the answer in Markdown ONLY.`,
   ]
     .filter(Boolean)
@@ -45,6 +48,53 @@ export function buildHistoryMessages(historyRaw?: ChatHistoryItem[]): BaseMessag
   return history
 }
 
+/**
+ * Keeps the best-ranked chunks that fit in `maxChars` characters. The first chunk is
+ * always kept, truncated when it alone exceeds the limit.
+ */
+export function limitContextChars(
+  results: [Document, number][],
+  maxChars: number | null,
+): [Document, number][] {
+  if (maxChars === null) return results
+  const kept: [Document, number][] = []
+  let used = 0
+  for (const [doc, score] of results) {
+    if (used + doc.pageContent.length > maxChars) {
+      if (kept.length === 0) {
+        const pageContent = doc.pageContent.slice(0, maxChars)
+        kept.push([new Document({ ...doc, pageContent }), score])
+      }
+      break
+    }
+    kept.push([doc, score])
+    used += doc.pageContent.length
+  }
+  return kept
+}
+
+/**
+ * Numbers each retrieved chunk so the model can emit `[n]` references that map to `sources[n - 1]`.
+ */
+export function formatNumberedContext(results: [Document, number][]): string {
+  return results
+    .map(([doc], i) => {
+      const fileName = typeof doc.metadata?.fileName === 'string' ? doc.metadata.fileName : null
+      const pageStart = Number(doc.metadata?.pageStart) || null
+      const pageEnd = Number(doc.metadata?.pageEnd) || pageStart
+      const pages =
+        pageStart && pageEnd && pageEnd !== pageStart
+          ? `pp. ${pageStart}-${pageEnd}`
+          : pageStart
+            ? `p. ${pageStart}`
+            : null
+      const label = [fileName, pages].filter(Boolean).join(', ')
+      const header = label ? `[${i + 1}] (${label})` : `[${i + 1}]`
+      return `${header}\n${doc.pageContent}`
+    })
+    .join('\n\n---\n\n')
+}
+
 export function buildMessages(params: BuildMessagesParams): BaseMessage[] {
   return [
     new SystemMessage(params.systemRules),
@@ -74,6 +124,36 @@ export function extractText(resp: unknown): string {
   return String(resp)
 }
 
+/**
+ * Extracts the text delta from a streamed LangChain chunk.
+ * Anthropic streams content blocks (`[{ type: 'text', text }]`) instead of plain strings.
+ */
+export function extractChunkText(chunk: unknown): string {
+  if (!chunk || typeof chunk !== 'object' || !('content' in chunk)) return ''
+  const c = (chunk as { content?: unknown }).content
+  if (typeof c === 'string') return c
+  if (!Array.isArray(c)) return ''
+  return c
+    .map(part =>
+      part && typeof part === 'object' && typeof (part as { text?: unknown }).text === 'string'
+        ? (part as { text: string }).text
+        : '',
+    )
+    .join('')
+}
+
+/**
+ * Reads LangChain's `usage_metadata` (set by OpenAI, Gemini and Anthropic chat models)
+ * from a response or streamed chunk.
+ */
+export function extractUsage(resp: unknown): TokenUsage | null {
+  if (!resp || typeof resp !== 'object' || !('usage_metadata' in resp)) return null
+  const usage = (resp as { usage_metadata?: { input_tokens?: number; output_tokens?: number } })
+    .usage_metadata
+  if (!usage) return null
+  return { promptTokens: usage.input_tokens ?? 0, completionTokens: usage.output_tokens ?? 0 }
+}
+
 /**
  * Formats an array of BaseMessages into a plain text string for fallback prompts.
  */
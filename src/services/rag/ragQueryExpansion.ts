@@ -0,0 +1,154 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages'
+
+import { QueryExpansionStrategy } from '../../entities/KnowledgeBase'
+import type { LlmSettings } from '../../types/llm'
+import type { ChatHistoryItem, QueryExpansion, SearchQuery } from '../../types/rag'
+import type { TokenUsage } from '../../types/usage'
+import { invokeWithFailover } from '../llmFailover'
+import { extractText, extractUsage } from './ragPrompt'
+
+const HISTORY_WINDOW = 6
+const HISTORY_ITEM_MAX_CHARS = 500
+
+const getMultiQueryCount = (): number => {
+  const v = Number(process.env.RAG_MULTI_QUERY_COUNT || 3)
+  return Number.isInteger(v) && v > 0 ? Math.min(v, 8) : 3
+}
+
+const STANDALONE_PROMPT = [
+  'Rewrite the last user question so it can be understood without the conversation.',
+  'Resolve pronouns and references ("it", "that error", "the second one") from the history.',
+  'Keep the language of the question. Reply with the rewritten question only.',
+].join('\n')
+
+const multiQueryPrompt = (count: number) =>
+  [
+    `Write ${count} search queries that would find passages answering the question in a product documentation knowledge base.`,
+    'Vary the wording: synonyms, expanded abbreviations and error codes, likely document terms.',
+    'If the question is not in English, make one of the queries an English translation.',
+    'Reply with one query per line, without numbering or explanations.',
+  ].join('\n')
+
+const HYDE_PROMPT = [
+  'Write a short passage (3-5 sentences) from a product manual or FAQ that answers the question.',
+  'Use the wording such documentation would use. Invent plausible details if needed; the passage is only used for search.',
+  'Reply with the passage only.',
+].join('\n')
+
+const formatHistory = (history: ChatHistoryItem[]): string =>
+  history
+    .filter(item => item?.content && item.role !== 'system')
+    .slice(-HISTORY_WINDOW)
+    .map(
+      item =>
+        `${item.role.toUpperCase()}: ${String(item.content).slice(0, HISTORY_ITEM_MAX_CHARS)}`,
+    )
+    .join('\n')
+
+type AskContext = { usage: TokenUsage; signal?: AbortSignal; llms?: LlmSettings[] }
+
+const ask = async (system: string, user: string, context: AskContext): Promise<string> => {
+  const { usage, signal } = context
+  const response = await invokeWithFailover(
+    context.llms,
+    [new SystemMessage(system), new HumanMessage(user)],
+    signal,
+  )
+  const tokens = extractUsage(response)
+  if (tokens) {
+    usage.promptTokens += tokens.promptTokens
+    usage.completionTokens += tokens.completionTokens
+  }
+  return extractText(response).trim()
+}
+
+/**
+ * Runs a strategy and returns `fallback` when the model call fails: expansion only adds
+ * recall, so retrieval goes on with the question as asked.
+ */
+const attempt = async <T>(
+  strategy: QueryExpansionStrategy,
+  fallback: T,
+  run: () => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  try {
+    return await run()
+  } catch (error) {
+    if (signal?.aborted) throw error
+    console.error(`Query expansion (${strategy}) failed:`, error)
+    return fallback
+  }
+}
+
+/**
+ * Rewrites the question with the enabled strategies. The standalone rewrite runs first so
+ * paraphrases and hypothetical passages build on the self-contained question.
+ */
+export const expandQuery = async (
+  question: string,
+  history: ChatHistoryItem[] | undefined,
+  strategies: QueryExpansionStrategy[],
+  signal?: AbortSignal,
+  llms?: LlmSettings[],
+): Promise<QueryExpansion> => {
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0 }
+  const context: AskContext = { usage, signal, llms }
+  const enabled = new Set(strategies)
+  const historyText = formatHistory(Array.isArray(history) ? history : [])
+
+  let standalone = question
+  if (enabled.has(QueryExpansionStrategy.STANDALONE) && historyText) {
+    standalone = await attempt(
+      QueryExpansionStrategy.STANDALONE,
+      question,
+      async () =>
+        (await ask(
+          STANDALONE_PROMPT,
+          `HISTORY:\n${historyText}\n\nQUESTION: ${question}`,
+          context,
+        )) || question,
+      signal,
+    )
+  }
+
+  const [paraphrases, passage] = await Promise.all([
+    enabled.has(QueryExpansionStrategy.MULTI_QUERY)
+      ? attempt(
+          QueryExpansionStrategy.MULTI_QUERY,
+          [],
+          async () => {
+            const count = getMultiQueryCount()
+            const reply = await ask(multiQueryPrompt(count), standalone, context)
+            return reply
+              .split('\n')
+              .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+              .filter(Boolean)
+              .slice(0, count)
+          },
+          signal,
+        )
+      : Promise.resolve<string[]>([]),
+    enabled.has(QueryExpansionStrategy.HYDE)
+      ? attempt(
+          QueryExpansionStrategy.HYDE,
+          '',
+          () => ask(HYDE_PROMPT, standalone, context),
+          signal,
+        )
+      : Promise.resolve(''),
+  ])
+
+  const queries: SearchQuery[] = []
+  const seen = new Set<string>()
+  for (const text of [standalone, ...paraphrases]) {
+    const key = text.toLowerCase().replace(/\s+/g, ' ').trim()
+    if (!key || seen.has(key)) continue
+    seen.add(key)
+    queries.push({ embedText: text, keywordText: text })
+  }
+  // The passage is made up, so its words are not used for keyword search
+  if (passage) queries.push({ embedText: passage, keywordText: standalone })
+
+  return { question: standalone, queries, usage }
+}
@@ -1,8 +1,32 @@
 import { Pool } from 'pg'
 
 let initialized = false
+const indexedDimensions = new Set<number>()
 
-export const PGVECTOR_DIMENSION = 1536 // text-embedding-3-small
+// Vectors written before embeddings became configurable (text-embedding-3-small).
+const LEGACY_EMBEDDING_MODEL = 'text-embedding-3-small'
+
+// pgvector's HNSW index supports up to 2000 dims for `vector` and 4000 for `halfvec`.
+const MAX_VECTOR_INDEX_DIMENSION = 2000
+const MAX_HALFVEC_INDEX_DIMENSION = 4000
+
+const assertDimension = (dimension: number) => {
+  if (!Number.isInteger(dimension) || dimension <= 0 || dimension > 16000) {
+    throw new Error(`Invalid embedding dimension: ${dimension}`)
+  }
+}
+
+/**
+ * SQL expression for the cosine distance between the stored embedding and `param`.
+ * The `embedding` column is untyped so KBs can use different models; casting to a fixed
+ * dimension makes the expression match the partial HNSW index for that dimension.
+ */
+export const embeddingDistanceSql = (dimension: number, param: string): string => {
+  assertDimension(dimension)
+  const type =
+    dimension > MAX_VECTOR_INDEX_DIMENSION ? `halfvec(${dimension})` : `vector(${dimension})`
+  return `(embedding::${type} <=> ${param}::${type})`
+}
 
 export async function ensurePgVectorSchema(pgPool: Pool) {
   if (initialized) return
@@ -16,17 +40,88 @@ export async function ensurePgVectorSchema(pgPool: Pool) {
         kb_id text NOT NULL,
         content text NOT NULL,
         metadata jsonb,
-        embedding vector(${PGVECTOR_DIMENSION}) NOT NULL
+        embedding vector NOT NULL,
+        embedding_model text,
+        embedding_dim integer,
+        content_hash text,
+        content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED
       );
     `)
+    await client.query(`ALTER TABLE kb_documents ADD COLUMN IF NOT EXISTS embedding_model text;`)
+    await client.query(`ALTER TABLE kb_documents ADD COLUMN IF NOT EXISTS embedding_dim integer;`)
+    await client.query(`ALTER TABLE kb_documents ADD COLUMN IF NOT EXISTS content_hash text;`)
+
+    // Tables created with `vector(1536)`: drop the typed index and make the column untyped.
+    const typed = await client.query<{ typmod: number }>(`
+      SELECT atttypmod AS typmod FROM pg_attribute
+      WHERE attrelid = 'kb_documents'::regclass AND attname = 'embedding'
+    `)
+    if ((typed.rows[0]?.typmod ?? -1) > 0) {
+      await client.query(`DROP INDEX IF EXISTS kb_documents_embedding_hnsw_idx;`)
+      await client.query(`ALTER TABLE kb_documents ALTER COLUMN embedding TYPE vector;`)
+    }
+    await client.query(
+      `
+        UPDATE kb_documents
+        SET embedding_dim = vector_dims(embedding),
+            embedding_model = COALESCE(embedding_model, $1)
+        WHERE embedding_dim IS NULL
+      `,
+      [LEGACY_EMBEDDING_MODEL],
+    )
+
+    // Full-text column for hybrid retrieval. The `simple` config keeps product codes and
+    // ingredient names as-is (no stemming or stop words).
+    await client.query(`
+      ALTER TABLE kb_documents ADD COLUMN IF NOT EXISTS content_tsv tsvector
+      GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+    `)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS kb_documents_content_tsv_idx
+      ON kb_documents USING gin (content_tsv);
+    `)
+
+    // SHA-256 of each chunk's text: identical chunks reuse their stored embedding on reindex
+    await client.query(`
+      UPDATE kb_documents
+      SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+      WHERE content_hash IS NULL
+    `)
+    await client.query(`
+      CREATE INDEX IF NOT EXISTS kb_documents_content_hash_idx
+      ON kb_documents (kb_id, content_hash);
+    `)
+
     await client.query(`CREATE INDEX IF NOT EXISTS kb_documents_kb_id_idx ON kb_documents (kb_id);`)
+    initialized = true
+  } finally {
+    client.release()
+  }
+}
+
+/**
+ * Creates the partial HNSW index for one embedding dimension (once per process).
+ * Dimensions above pgvector's index limits are searched without an index.
+ */
+export async function ensureEmbeddingIndex(pgPool: Pool, dimension: number) {
+  assertDimension(dimension)
+  if (indexedDimensions.has(dimension)) return
+  if (dimension > MAX_HALFVEC_INDEX_DIMENSION) {
+    indexedDimensions.add(dimension)
+    return
+  }
+
+  const type = dimension > MAX_VECTOR_INDEX_DIMENSION ? 'halfvec' : 'vector'
+  const client = await pgPool.connect()
+  try {
     await client.query(`
-      CREATE INDEX IF NOT EXISTS kb_documents_embedding_hnsw_idx
+      CREATE INDEX IF NOT EXISTS kb_documents_embedding_hnsw_${dimension}_idx
       ON kb_documents
-      USING hnsw (embedding vector_cosine_ops)
-      WITH (m = 16, ef_construction = 64);
+      USING hnsw ((embedding::${type}(${dimension})) ${type}_cosine_ops)
+      WITH (m = 16, ef_construction = 64)
+      WHERE embedding_dim = ${dimension};
     `)
-    initialized = true
+    indexedDimensions.add(dimension)
   } finally {
     client.release()
   }
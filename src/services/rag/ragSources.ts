@@ -0,0 +1,50 @@
+import { Document } from '@langchain/core/documents'
+import type { RagSource } from '../../types/rag'
+
+const SNIPPET_MAX_CHARS = 300
+
+const readString = (metadata: Record<string, unknown>, key: string): string | null => {
+  const v = metadata[key]
+  return typeof v === 'string' && v.trim() ? v : null
+}
+
+const readPage = (metadata: Record<string, unknown>, key: string): number | null => {
+  const v = Number(metadata[key])
+  return Number.isInteger(v) && v > 0 ? v : null
+}
+
+export function buildSnippet(text: string, maxChars = SNIPPET_MAX_CHARS): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim()
+  return collapsed.length > maxChars ? `${collapsed.slice(0, maxChars).trimEnd()}…` : collapsed
+}
+
+/**
+ * Maps retrieved chunks to citation sources. The array order matches the numbered
+ * CONTEXT blocks (see `formatNumberedContext`), so `sources[n - 1]` is `[n]` in the answer.
+ */
+export function buildSources(results: [Document, number][]): RagSource[] {
+  return results.map(([doc, score], i) => {
+    const metadata = (doc.metadata ?? {}) as Record<string, unknown>
+    const kbId = readString(metadata, 'kbId')
+    const documentId = readString(metadata, 'documentId')
+    const pageStart = readPage(metadata, 'pageStart')
+    const pageEnd = readPage(metadata, 'pageEnd') ?? pageStart
+    const fileUrl =
+      readString(metadata, 'sourceUrl') ??
+      (kbId && documentId ? `/knowledge-bases/${kbId}/documents/${documentId}/file` : null)
+    // PDF viewers honour the `#page=N` fragment, so links open on the cited page.
+    const downloadUrl = fileUrl && pageStart ? `${fileUrl}#page=${pageStart}` : fileUrl
+
+    return {
+      index: i + 1,
+      documentId,
+      fileName: readString(metadata, 'fileName'),
+      kbId,
+      pageStart,
+      pageEnd,
+      score,
+      snippet: buildSnippet(doc.pageContent),
+      downloadUrl,
+    }
+  })
+}
@@ -1,52 +1,225 @@
 import { BaseLanguageModel } from '@langchain/core/language_models/base'
 import { Document } from '@langchain/core/documents'
 import { BaseMessage } from '@langchain/core/messages'
-import { RecursiveCharacterTextSplitter } from '@langchain/textsplitters'
+import { In } from 'typeorm'
 
-import { LLMProvider } from '../entities/KnowledgeBase'
+import { AppDataSource } from '../data-source'
+import {
+  KnowledgeBase,
+  LLMProvider,
+  NoMatchPolicy,
+  QueryExpansionStrategy,
+  RerankerType,
+  RetrievalMode,
+} from '../entities/KnowledgeBase'
 import { pgPool } from '../db/pgPool'
+import { hashToken } from '../utils/tokens'
 import { PostgresVectorStore } from '../utils/postgresVectorStore'
-import { EmbeddingsProviderService } from './embeddingsProvider'
+import { EmbeddingsProviderService, getKnowledgeBaseEmbeddingSpec } from './embeddingsProvider'
+import { isLlmCircuitOpen, isTransientLlmError, runWithFailover } from './llmFailover'
 import { LLMProviderService } from './llmProvider'
-import { getDefaultAIConfig } from './configService'
+import { getDefaultAIConfig, resolveLlmChain } from './configService'
 import { openAIWebSearchAnswer } from './openaiWebSearch'
+import { getReranker } from './rerank'
 import {
   buildGlobalMessages,
   buildGlobalSystemRules,
   buildHistoryMessages,
   buildMessages,
   buildSystemRules,
+  extractChunkText,
   extractText,
+  extractUsage,
   formatMessagesForPrompt,
+  formatNumberedContext,
+  limitContextChars,
   trimInstructions,
 } from './rag/ragPrompt'
-import { ensurePgVectorSchema } from './rag/ragSchema'
+import { getChunkingSettings, splitIntoChunks } from './rag/ragChunking'
+import { expandQuery } from './rag/ragQueryExpansion'
+import { reciprocalRankFusion } from './rag/ragFusion'
+import { buildSources } from './rag/ragSources'
+import { ensureEmbeddingIndex, ensurePgVectorSchema } from './rag/ragSchema'
 import { GLOBAL_FALLBACK_PROMPT_INSTRUCTIONS } from './rag/globalPrompt'
-import type { ChatHistoryItem, IngestMetadata, KbScore } from '../types/rag'
+import type { EmbeddingSpec } from '../types/embeddings'
+import type { LlmOverrides, LlmSettings } from '../types/llm'
+import type { IngestResult, LlmUsage, TokenUsage } from '../types/usage'
+import type {
+  ChatAnswerMode,
+  ChatHistoryItem,
+  ChunkingSettings,
+  IngestMetadata,
+  IngestPage,
+  KbScore,
+  RagAnswer,
+  RagQueryOptions,
+  RetrievalOutcome,
+  SearchQuery,
+} from '../types/rag'
+
+const kbRepository = AppDataSource.getRepository(KnowledgeBase)
+
+type KbSettings = {
+  spec: EmbeddingSpec
+  retrievalMode: RetrievalMode
+  chunking: ChunkingSettings
+  topK: number
+  minScore: number | null
+  maxContextChars: number | null
+  noMatch: NoMatchSettings
+  reranker: RerankerType | null
+  queryExpansion: QueryExpansionStrategy[]
+  llm: LlmOverrides | null
+}
+type NoMatchSettings = { policy: NoMatchPolicy; message: string | null }
+type KbSearchResult = { kbId: string; results: [Document, number][] }
+
+const DEFAULT_NO_MATCH_MESSAGE =
+  "I couldn't find anything about this in the knowledge base. Please rephrase your question or contact support."
+
+// When KBs with different policies are queried together, the strictest one applies.
+const NO_MATCH_POLICY_ORDER = [NoMatchPolicy.REFUSE, NoMatchPolicy.WARN, NoMatchPolicy.GLOBAL]
+
+// Retrieval scores are cosine similarities in every mode, so one threshold fits all KBs.
+const aboveMinScore = (
+  results: [Document, number][],
+  minScore: number | null,
+): [Document, number][] =>
+  minScore === null ? results : results.filter(([, score]) => score >= minScore)
+
+// Reranking and query expansion run on the answering model, so their tokens are metered
+// with the answer.
+const addTokenUsage = (usage: LlmUsage, extra: TokenUsage | undefined) => {
+  if (!extra) return
+  usage.promptTokens += extra.promptTokens
+  usage.completionTokens += extra.completionTokens
+}
+
+const asSearchQueries = (question: string): SearchQuery[] => [
+  { embedText: question, keywordText: question },
+]
+
+/**
+ * Merges the results of several queries: a chunk found more than once keeps its best score.
+ */
+const mergeSearchResults = (lists: [Document, number][][], k: number): [Document, number][] => {
+  if (lists.length === 1) return lists[0]
+  const best = new Map<string, [Document, number]>()
+  for (const [doc, score] of lists.flat()) {
+    const key = doc.id ?? doc.pageContent
+    const current = best.get(key)
+    if (!current || score > current[1]) best.set(key, [doc, score])
+  }
+  return Array.from(best.values())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, k)
+}
+
+// Candidates fetched for the reranker to choose the topK from
+const getRerankCandidates = (topK: number): number => Math.min(Math.max(topK * 3, 10), 50)
+
+const getDefaultTopK = (): number => {
+  const envTopK = Number(process.env.RAG_TOP_K || 4)
+  return Number.isFinite(envTopK) ? Math.min(Math.max(envTopK, 2), 12) : 4
+}
 
 export class RagService {
+  private async getKbSettings(kbIds: string[]): Promise<Map<string, KbSettings>> {
+    const kbs = await kbRepository.find({ where: { id: In(kbIds) } })
+    const config = await getDefaultAIConfig()
+    const settings = new Map(
+      kbs.map(kb => [
+        kb.id,
+        {
+          spec: getKnowledgeBaseEmbeddingSpec(kb),
+          retrievalMode: kb.retrievalMode ?? config.retrievalMode ?? RetrievalMode.VECTOR,
+          chunking: getChunkingSettings(kb),
+          topK: kb.topK ?? getDefaultTopK(),
+          minScore: kb.minScore ?? config.minScore ?? null,
+          maxContextChars: kb.maxContextChars ?? null,
+          noMatch: {
+            policy: kb.noMatchPolicy ?? config.noMatchPolicy ?? NoMatchPolicy.GLOBAL,
+            message: kb.noMatchMessage ?? null,
+          },
+          reranker: kb.reranker ?? null,
+          queryExpansion: kb.queryExpansion ?? [],
+          llm: kb.llmOverrides ?? null,
+        },
+      ]),
+    )
+    const missing = kbIds.find(kbId => !settings.has(kbId))
+    if (missing) throw new Error(`Knowledge base ${missing} not found`)
+    return settings
+  }
+
+  /**
+   * Searches each KB with its own embedding model and retrieval mode, once per query. Each
+   * query is embedded once per distinct model, since vectors are only comparable within one
+   * model.
+   */
+  private async searchKnowledgeBases(
+    kbIds: string[],
+    settings: Map<string, KbSettings>,
+    queries: SearchQuery[],
+    k: number,
+  ): Promise<KbSearchResult[]> {
+    await ensurePgVectorSchema(pgPool)
+    const queryVectors = new Map<string, Promise<number[]>>()
+
+    return await Promise.all(
+      kbIds.map(async kbId => {
+        const { spec, retrievalMode } = settings.get(kbId) as KbSettings
+        // Dimension is learned on first ingest; without it the KB has no vectors yet.
+        if (spec.dimension === null) return { kbId, results: [] }
+
+        const embeddings = await EmbeddingsProviderService.getEmbeddings(spec)
+        await ensureEmbeddingIndex(pgPool, spec.dimension)
+        const store = new PostgresVectorStore(embeddings, pgPool, kbId, spec)
+
+        const perQuery = await Promise.all(
+          queries.map(async ({ embedText, keywordText }) => {
+            const vectorKey = JSON.stringify([spec.provider, spec.model, spec.dimension, embedText])
+            if (!queryVectors.has(vectorKey)) {
+              queryVectors.set(vectorKey, embeddings.embedQuery(embedText))
+            }
+            const queryVector = await (queryVectors.get(vectorKey) as Promise<number[]>)
+            return retrievalMode === RetrievalMode.HYBRID
+              ? await store.hybridSearchWithScore(queryVector, keywordText, k)
+              : await store.similaritySearchVectorWithScore(queryVector, k)
+          }),
+        )
+        // Hybrid results are ordered by rank, which sorting by score would undo
+        const results =
+          retrievalMode === RetrievalMode.HYBRID
+            ? reciprocalRankFusion(perQuery, k)
+            : mergeSearchResults(perQuery, k)
+        return { kbId, results }
+      }),
+    )
+  }
+
   /**
    * When a license has multiple KBs and the client didn't specify `kbId`,
-   * pick the most relevant KB by running a cheap vector search (k=1) across each KB
-   * and choosing the best score.
+   * pick the most relevant KB by running a cheap search (k=1) across each KB
+   * and choosing the best score. Scores are cosine similarities in every retrieval mode,
+   * so hybrid and vector KBs compete on the same scale.
    */
   async pickBestKnowledgeBase(kbIds: string[], question: string): Promise<string | null> {
     const uniqueKbIds = Array.from(new Set(kbIds)).filter(Boolean)
     if (uniqueKbIds.length === 0) return null
     if (uniqueKbIds.length === 1) return uniqueKbIds[0]
 
-    await ensurePgVectorSchema(pgPool)
-    const embeddings = await EmbeddingsProviderService.getEmbeddings()
-    const queryVector = await embeddings.embedQuery(question)
-
-    const scores = await Promise.all(
-      uniqueKbIds.map(async kbId => {
-        const store = new PostgresVectorStore(embeddings, pgPool, kbId)
-        const results = await store.similaritySearchVectorWithScore(queryVector, 1)
-        const score = results.length > 0 ? results[0][1] : Number.NEGATIVE_INFINITY
-        return { kbId, score }
-      }),
+    const settings = await this.getKbSettings(uniqueKbIds)
+    const searched = await this.searchKnowledgeBases(
+      uniqueKbIds,
+      settings,
+      asSearchQueries(question),
+      1,
     )
+    const scores = searched.map(({ kbId, results }) => {
+      const relevant = aboveMinScore(results, (settings.get(kbId) as KbSettings).minScore)
+      return { kbId, score: relevant.length > 0 ? relevant[0][1] : Number.NEGATIVE_INFINITY }
+    })
 
     const best = scores.reduce<KbScore>(
       (acc, item) => (item.score > acc.score ? { kbId: item.kbId, score: item.score } : acc),
@@ -59,20 +232,59 @@ export class RagService {
     return best.kbId
   }
 
-  async ingestDocument(kbId: string, text: string, metadata: IngestMetadata) {
+  async ingestDocument(
+    kbId: string,
+    text: string,
+    metadata: IngestMetadata,
+    pages?: IngestPage[],
+  ): Promise<IngestResult> {
     await ensurePgVectorSchema(pgPool)
-    const splitter = new RecursiveCharacterTextSplitter({
-      chunkSize: 1000,
-      chunkOverlap: 200,
-    })
-
-    // LangChain expects an array of metadata objects aligned with texts.
-    // Passing a plain object can result in missing per-chunk metadata → "unknown" sources.
-    const docs = await splitter.createDocuments([text], [metadata ?? {}])
-
-    const embeddings = await EmbeddingsProviderService.getEmbeddings()
-    const store = new PostgresVectorStore(embeddings, pgPool, kbId)
-    await store.addDocuments(docs)
+    const settings = (await this.getKbSettings([kbId])).get(kbId) as KbSettings
+    let { spec } = settings
+    const docs = await splitIntoChunks(text, metadata ?? {}, settings.chunking, pages)
+    const result: IngestResult = {
+      chunkCount: docs.length,
+      reusedChunkCount: 0,
+      provider: spec.provider,
+      model: spec.model,
+      estimatedTokens: 0,
+    }
+    if (docs.length === 0) return result
+
+    const embeddings = await EmbeddingsProviderService.getEmbeddings(spec)
+
+    // Chunks identical to ones already stored for this model keep their embedding; only
+    // new or changed text is sent to the embeddings API (and counted as usage).
+    const hashes = docs.map(d => hashToken(d.pageContent))
+    const reused = await new PostgresVectorStore(
+      embeddings,
+      pgPool,
+      kbId,
+      spec,
+    ).findEmbeddingsByContentHash([...new Set(hashes)])
+    const toEmbed = docs.filter((_, i) => !reused.has(hashes[i]))
+    const fresh = toEmbed.length
+      ? await embeddings.embedDocuments(toEmbed.map(d => d.pageContent))
+      : []
+    let next = 0
+    const vectors = hashes.map(hash => reused.get(hash) ?? fresh[next++])
+    result.reusedChunkCount = docs.length - toEmbed.length
+    result.estimatedTokens = Math.ceil(toEmbed.reduce((n, d) => n + d.pageContent.length, 0) / 4)
+
+    // Models without a known size record their dimension from the first embedded chunk.
+    if (spec.dimension === null) {
+      spec = { ...spec, dimension: vectors[0].length }
+      await kbRepository.update({ id: kbId }, { embeddingDimension: spec.dimension })
+    }
+    await ensureEmbeddingIndex(pgPool, spec.dimension as number)
+    const store = new PostgresVectorStore(embeddings, pgPool, kbId, spec)
+
+    // Documents backed by a `Document` row are (re)indexed atomically, so re-running
+    // ingestion (retries, reindex) never duplicates chunks.
+    const documentId = typeof metadata?.documentId === 'string' ? metadata.documentId : null
+    if (!documentId) await store.addVectors(vectors, docs)
+    else await store.replaceDocumentVectors(documentId, vectors, docs)
+    return result
   }
 
   async query(
@@ -80,20 +292,45 @@ export class RagService {
     question: string,
     promptInstructions: string | null = null,
     historyRaw?: ChatHistoryItem[],
-  ) {
-    await ensurePgVectorSchema(pgPool)
-    const embeddings = await EmbeddingsProviderService.getEmbeddings()
-    const store = new PostgresVectorStore(embeddings, pgPool, kbId)
-
-    const queryVector = await embeddings.embedQuery(question)
-    const envTopK = Number(process.env.RAG_TOP_K || 4)
-    const topK = Number.isFinite(envTopK) ? Math.min(Math.max(envTopK, 2), 12) : 4
-    const results = await store.similaritySearchVectorWithScore(queryVector, topK)
+    options: RagQueryOptions = {},
+  ): Promise<RagAnswer> {
+    const settings = await this.getKbSettings([kbId])
+    const { topK, minScore, maxContextChars, noMatch, reranker, queryExpansion, ...kb } =
+      settings.get(kbId) as KbSettings
+    const llms = await resolveLlmChain(options.licenseLlm, kb.llm)
+    const expansion = await expandQuery(question, historyRaw, queryExpansion, options.signal, llms)
+    options.onUsage?.(expansion.usage)
+    const k = reranker ? getRerankCandidates(topK) : topK
+    const [searched] = await this.searchKnowledgeBases([kbId], settings, expansion.queries, k)
+
+    let retrieval: RetrievalOutcome = 'matched'
+    let results = aboveMinScore(searched.results, minScore)
     if (results.length === 0) {
-      // If KB has no vectors yet, fall back to global knowledge using KB instructions.
-      return await this.queryGlobal(question, promptInstructions, historyRaw)
+      // Nothing relevant (or no vectors yet): the KB's policy decides what to answer.
+      if (noMatch.policy !== NoMatchPolicy.WARN || searched.results.length === 0) {
+        const answer = await this.answerWithoutMatch(
+          noMatch,
+          'kb',
+          question,
+          promptInstructions,
+          historyRaw,
+          options,
+          llms,
+        )
+        if (answer.usage) addTokenUsage(answer.usage, expansion.usage)
+        return answer
+      }
+      results = searched.results
+      retrieval = 'low_confidence'
     }
-    const context = results.map(([doc]) => doc.pageContent).join('\n\n---\n\n')
+    const reranked = await this.rerank(reranker, expansion.question, results, options.signal, llms)
+    if (reranked.usage) options.onUsage?.(reranked.usage)
+    results = limitContextChars(reranked.results.slice(0, topK), maxContextChars)
+    for (const [doc] of results) {
+      if (!doc.metadata || typeof doc.metadata !== 'object') doc.metadata = {}
+      if (!('kbId' in doc.metadata)) (doc.metadata as Record<string, unknown>).kbId = kbId
+    }
+    const context = formatNumberedContext(results)
 
     const maxInstrChars = Number(process.env.RAG_MAX_INSTRUCTIONS_CHARS || 6000)
     const trimmedInstructions = trimInstructions(promptInstructions, maxInstrChars)
@@ -101,16 +338,68 @@ export class RagService {
     const history: BaseMessage[] = buildHistoryMessages(historyRaw)
     const messages: BaseMessage[] = buildMessages({ systemRules, history, context, question })
 
-    const llm: BaseLanguageModel = await LLMProviderService.getLLM()
+    // Fallback for providers/configs that don't accept structured chat messages
+    const historyText = formatMessagesForPrompt(history)
+    const fallbackPrompt = `${systemRules}\n\n${historyText}\n\nCONTEXT:\n\n${context}\n\nQUESTION: ${question}\n\nReturn Markdown MD.`
+    const { text, usage } = await this.generate(messages, fallbackPrompt, options, llms)
+    addTokenUsage(usage, expansion.usage)
+    addTokenUsage(usage, reranked.usage)
+    return { answer: text, sources: buildSources(results), mode: 'kb', retrieval, usage }
+  }
+
+  /**
+   * Reorders candidates by reranker score, which replaces the retrieval score so
+   * candidates from different KBs compare on one scale. Reranking only refines the order,
+   * so when it fails the retrieval order is kept.
+   */
+  private async rerank(
+    type: RerankerType | null,
+    question: string,
+    results: [Document, number][],
+    signal: AbortSignal | undefined,
+    llms: LlmSettings[],
+  ): Promise<{ results: [Document, number][]; usage?: TokenUsage }> {
+    if (!type || results.length < 2) return { results }
     try {
-      const response = await llm.invoke(messages)
-      return extractText(response)
-    } catch {
-      // Fallback for providers/configs that don't accept structured chat messages
-      const historyText = formatMessagesForPrompt(history)
-      const prompt = `${systemRules}\n\n${historyText}\n\nCONTEXT:\n\n${context}\n\nQUESTION: ${question}\n\nReturn Markdown MD.`
-      const response = await llm.invoke(prompt)
-      return extractText(response)
+      const { scores, usage } = await getReranker(type).rerank(
+        question,
+        results.map(([doc]) => doc.pageContent),
+        signal,
+        llms,
+      )
+      const reranked = results
+        .map(([doc], i) => [doc, scores[i] ?? 0] as [Document, number])
+        .sort((a, b) => b[1] - a[1])
+      return { results: reranked, usage }
+    } catch (error) {
+      if (signal?.aborted) throw error
+      console.error(`Reranking with ${type} failed, keeping the retrieval order:`, error)
+      return { results }
+    }
+  }
+
+  /**
+   * Applies the no-match policy when no chunk cleared the relevance threshold.
+   */
+  private async answerWithoutMatch(
+    noMatch: NoMatchSettings,
+    mode: ChatAnswerMode,
+    question: string,
+    promptInstructions: string | null,
+    historyRaw: ChatHistoryItem[] | undefined,
+    options: RagQueryOptions,
+    llms: LlmSettings[],
+  ): Promise<RagAnswer> {
+    if (noMatch.policy === NoMatchPolicy.REFUSE) {
+      const answer = noMatch.message || DEFAULT_NO_MATCH_MESSAGE
+      options.onToken?.(answer)
+      return { answer, sources: [], mode, retrieval: 'refused' }
+    }
+    // Global knowledge with the KB's instructions; `warn` only gets here without any chunks
+    const result = await this.answerGlobal(question, promptInstructions, historyRaw, options, llms)
+    return {
+      ...result,
+      retrieval: noMatch.policy === NoMatchPolicy.WARN ? 'low_confidence' : 'global_fallback',
     }
   }
 
@@ -125,44 +414,96 @@ export class RagService {
     question: string,
     promptInstructions: string | null = null,
     historyRaw?: ChatHistoryItem[],
-  ) {
+    options: RagQueryOptions = {},
+  ): Promise<RagAnswer> {
     const uniqueKbIds = Array.from(new Set(kbIds)).filter(Boolean)
     if (uniqueKbIds.length === 0)
-      return await this.queryGlobal(question, promptInstructions, historyRaw)
+      return await this.queryGlobal(question, promptInstructions, historyRaw, options)
     if (uniqueKbIds.length === 1)
-      return await this.query(uniqueKbIds[0], question, promptInstructions, historyRaw)
-
-    await ensurePgVectorSchema(pgPool)
-    const embeddings = await EmbeddingsProviderService.getEmbeddings()
-    const queryVector = await embeddings.embedQuery(question)
-
-    const envTopK = Number(process.env.RAG_TOP_K || 4)
-    const topK = Number.isFinite(envTopK) ? Math.min(Math.max(envTopK, 2), 12) : 4
+      return await this.query(uniqueKbIds[0], question, promptInstructions, historyRaw, options)
+
+    // The merged context uses the largest topK and the tightest context limit of the KBs.
+    const settings = await this.getKbSettings(uniqueKbIds)
+    const kbSettings = Array.from(settings.values())
+    const topK = Math.max(...kbSettings.map(s => s.topK))
+    const contextLimits = kbSettings.flatMap(s =>
+      s.maxContextChars === null ? [] : [s.maxContextChars],
+    )
+    const maxContextChars = contextLimits.length > 0 ? Math.min(...contextLimits) : null
+    // The merged candidates are reranked together, so only when every KB uses the same
+    // reranker; otherwise they keep their retrieval scores.
+    const reranker = kbSettings.every(s => s.reranker === kbSettings[0].reranker)
+      ? kbSettings[0].reranker
+      : null
+    // The answer uses the LLM overrides of the first KB (in request order) that has some.
+    const kbLlm = uniqueKbIds.map(id => settings.get(id)?.llm).find(Boolean)
+    const llms = await resolveLlmChain(options.licenseLlm, kbLlm)
     // Pull a few candidates from each KB so we can merge globally.
-    const perKbK = Math.min(8, Math.max(2, Math.ceil((topK * 2) / uniqueKbIds.length)))
-
-    const perKbResults = await Promise.all(
-      uniqueKbIds.map(async kbId => {
-        const store = new PostgresVectorStore(embeddings, pgPool, kbId)
-        const results = await store.similaritySearchVectorWithScore(queryVector, perKbK)
-        // Tag kbId for debugging/traceability (doesn't affect sources).
-        return results.map(([doc, score]) => {
-          if (!doc.metadata || typeof doc.metadata !== 'object') doc.metadata = {}
-          if (!('kbId' in doc.metadata)) (doc.metadata as Record<string, unknown>).kbId = kbId
-          return [doc, score] as [Document, number]
-        })
+    const perKbK = reranker
+      ? Math.max(2, Math.ceil(getRerankCandidates(topK) / uniqueKbIds.length))
+      : Math.min(8, Math.max(2, Math.ceil((topK * 2) / uniqueKbIds.length)))
+
+    // Each KB's expansion strategies apply to the shared query set.
+    const strategies = Array.from(new Set(kbSettings.flatMap(s => s.queryExpansion)))
+    const expansion = await expandQuery(question, historyRaw, strategies, options.signal, llms)
+    options.onUsage?.(expansion.usage)
+    const searched = await this.searchKnowledgeBases(
+      uniqueKbIds,
+      settings,
+      expansion.queries,
+      perKbK,
+    )
+    const perKbResults = searched.map(({ kbId, results }) =>
+      // Tag kbId so citations can point back to the right KB.
+      results.map(([doc, score]) => {
+        if (!doc.metadata || typeof doc.metadata !== 'object') doc.metadata = {}
+        if (!('kbId' in doc.metadata)) (doc.metadata as Record<string, unknown>).kbId = kbId
+        return [doc, score] as [Document, number]
       }),
     )
 
-    const merged = perKbResults
-      .flat()
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, topK)
-    if (merged.length === 0) {
-      return await this.queryGlobal(question, promptInstructions, historyRaw)
+    // KBs are merged by cosine similarity, the one score all retrieval modes share
+    const pool = (lists: [Document, number][][]) => lists.flat().sort((a, b) => b[1] - a[1])
+
+    let retrieval: RetrievalOutcome = 'matched'
+    let candidates = pool(
+      perKbResults.map((results, i) =>
+        aboveMinScore(results, (settings.get(searched[i].kbId) as KbSettings).minScore),
+      ),
+    )
+    if (candidates.length === 0) {
+      const policy =
+        NO_MATCH_POLICY_ORDER.find(p => kbSettings.some(s => s.noMatch.policy === p)) ??
+        NoMatchPolicy.GLOBAL
+      const refusing = kbSettings.find(s => s.noMatch.policy === policy && s.noMatch.message)
+      const noMatch: NoMatchSettings = { policy, message: refusing?.noMatch.message ?? null }
+      candidates = pool(perKbResults)
+      if (noMatch.policy !== NoMatchPolicy.WARN || candidates.length === 0) {
+        const answer = await this.answerWithoutMatch(
+          noMatch,
+          'multi_kb',
+          question,
+          promptInstructions,
+          historyRaw,
+          options,
+          llms,
+        )
+        if (answer.usage) addTokenUsage(answer.usage, expansion.usage)
+        return answer
+      }
+      retrieval = 'low_confidence'
     }
+    const reranked = await this.rerank(
+      reranker,
+      expansion.question,
+      candidates,
+      options.signal,
+      llms,
+    )
+    if (reranked.usage) options.onUsage?.(reranked.usage)
+    const merged = limitContextChars(reranked.results.slice(0, topK), maxContextChars)
 
-    const context = merged.map(([doc]) => doc.pageContent).join('\n\n---\n\n')
+    const context = formatNumberedContext(merged)
 
     const maxInstrChars = Number(process.env.RAG_MAX_INSTRUCTIONS_CHARS || 6000)
     const trimmedInstructions = trimInstructions(promptInstructions, maxInstrChars)
@@ -172,24 +513,31 @@ export class RagService {
     const history: BaseMessage[] = buildHistoryMessages(historyRaw)
     const messages: BaseMessage[] = buildMessages({ systemRules, history, context, question })
 
-    const llm: BaseLanguageModel = await LLMProviderService.getLLM()
-
-    try {
-      const response = await llm.invoke(messages)
-      return extractText(response)
-    } catch {
-      const historyText = formatMessagesForPrompt(history)
-      const prompt = `${systemRules}\n\n${historyText}\n\nCONTEXT:\n\n${context}\n\nQUESTION: ${question}\n\nReturn Markdown MD.`
-      const response = await llm.invoke(prompt)
-      return extractText(response)
-    }
+    const historyText = formatMessagesForPrompt(history)
+    const fallbackPrompt = `${systemRules}\n\n${historyText}\n\nCONTEXT:\n\n${context}\n\nQUESTION: ${question}\n\nReturn Markdown MD.`
+    const { text, usage } = await this.generate(messages, fallbackPrompt, options, llms)
+    addTokenUsage(usage, expansion.usage)
+    addTokenUsage(usage, reranked.usage)
+    return { answer: text, sources: buildSources(merged), mode: 'multi_kb', retrieval, usage }
   }
 
   async queryGlobal(
     question: string,
     promptInstructions: string | null = null,
     historyRaw?: ChatHistoryItem[],
-  ) {
+    options: RagQueryOptions = {},
+  ): Promise<RagAnswer> {
+    const llms = await resolveLlmChain(options.licenseLlm)
+    return await this.answerGlobal(question, promptInstructions, historyRaw, options, llms)
+  }
+
+  private async answerGlobal(
+    question: string,
+    promptInstructions: string | null,
+    historyRaw: ChatHistoryItem[] | undefined,
+    options: RagQueryOptions,
+    llms: LlmSettings[],
+  ): Promise<RagAnswer> {
     const maxInstrChars = Number(process.env.RAG_MAX_INSTRUCTIONS_CHARS || 6000)
     const trimmedInstructions = trimInstructions(
       promptInstructions ?? GLOBAL_FALLBACK_PROMPT_INSTRUCTIONS,
@@ -200,49 +548,203 @@ export class RagService {
 
     // If using OpenAI, prefer the first-party web_search tool (model decides whether to search).
     // For other providers, fall back to the existing provider LLM-only global mode.
-    const cfg = await getDefaultAIConfig()
+    const [cfg, ...fallbacks] = llms
     const provider = cfg.llmProvider || LLMProvider.OPENAI
     const modelName = cfg.model || 'gpt-4o'
+    const apiKey = process.env.OPENAI_API_KEY
 
-    if (provider === LLMProvider.OPENAI && process.env.OPENAI_API_KEY) {
+    if (
+      provider === LLMProvider.OPENAI &&
+      apiKey &&
+      (fallbacks.length === 0 || !isLlmCircuitOpen(cfg))
+    ) {
       const history: ChatHistoryItem[] = Array.isArray(historyRaw) ? historyRaw.slice(-12) : []
-      const { answerMarkdown } = await openAIWebSearchAnswer({
-        apiKey: process.env.OPENAI_API_KEY,
-        model: modelName,
-        systemRules,
-        question,
-        history,
-        maxOutputTokens: cfg.maxTokens ?? 1200,
-        temperature: cfg.temperature ?? null,
-        topP: cfg.topP ?? null,
-        frequencyPenalty: cfg.frequencyPenalty ?? null,
-        presencePenalty: cfg.presencePenalty ?? null,
-        externalWebAccess: process.env.RAG_GLOBAL_WEB_OFFLINE === '1' ? false : undefined,
-      })
-
-      return answerMarkdown
+      const { onToken } = options
+      let streamed = false
+      try {
+        const { result } = await runWithFailover(
+          [cfg],
+          (_, signal, onProgress) =>
+            openAIWebSearchAnswer({
+              apiKey,
+              model: modelName,
+              systemRules,
+              question,
+              history,
+              maxOutputTokens: cfg.maxTokens ?? 1200,
+              temperature: cfg.temperature ?? null,
+              topP: cfg.topP ?? null,
+              frequencyPenalty: cfg.frequencyPenalty ?? null,
+              presencePenalty: cfg.presencePenalty ?? null,
+              externalWebAccess: process.env.RAG_GLOBAL_WEB_OFFLINE === '1' ? false : undefined,
+              onDelta: onToken
+                ? delta => {
+                    streamed = true
+                    onProgress()
+                    onToken(delta)
+                  }
+                : undefined,
+              signal,
+            }),
+          { signal: options.signal, canRetry: () => !streamed },
+        )
+        if (result.usage) options.onUsage?.(result.usage)
+
+        return {
+          answer: result.answerMarkdown,
+          sources: [],
+          mode: 'global',
+          usage: {
+            provider,
+            model: modelName,
+            promptTokens: result.usage?.promptTokens ?? 0,
+            completionTokens: result.usage?.completionTokens ?? 0,
+          },
+        }
+      } catch (error) {
+        if (streamed || options.signal?.aborted || fallbacks.length === 0) throw error
+        console.warn('OpenAI web search failed, answering with the fallback LLMs:', error)
+      }
     }
 
     const history: BaseMessage[] = buildHistoryMessages(historyRaw)
     const messages: BaseMessage[] = buildGlobalMessages({ systemRules, history, question })
 
-    const llm: BaseLanguageModel = await LLMProviderService.getLLM()
-    try {
-      const response = await llm.invoke(messages)
-      return extractText(response)
-    } catch {
-      const historyText = formatMessagesForPrompt(history)
-      const prompt = `${systemRules}\n\n${historyText}\n\nQUESTION: ${question}\n\nReturn Markdown MD.`
-      const response = await llm.invoke(prompt)
-      return extractText(response)
+    const historyText = formatMessagesForPrompt(history)
+    const fallbackPrompt = `${systemRules}\n\n${historyText}\n\nQUESTION: ${question}\n\nReturn Markdown MD.`
+    // When web search was skipped or failed, only the fallbacks are left to try.
+    const webSearchUnavailable = provider === LLMProvider.OPENAI && apiKey && fallbacks.length > 0
+    const { text, usage } = await this.generate(
+      messages,
+      fallbackPrompt,
+      options,
+      webSearchUnavailable ? fallbacks : llms,
+    )
+    if (webSearchUnavailable) usage.fallback = true
+    return { answer: text, sources: [], mode: 'global', usage }
+  }
+
+  /**
+   * Invokes the LLMs in failover order, streaming when `options.onToken` is set.
+   * Retries once with a flat string prompt for providers/configs that don't accept structured
+   * chat messages — but only if nothing was streamed yet, so the client never sees duplicate text.
+   */
+  private async generate(
+    messages: BaseMessage[],
+    fallbackPrompt: string,
+    options: RagQueryOptions,
+    llms: LlmSettings[],
+  ): Promise<{ text: string; usage: LlmUsage }> {
+    const { onToken, onUsage } = options
+    let streamed = false
+
+    const run = async (
+      llm: BaseLanguageModel,
+      cfg: LlmSettings,
+      input: BaseMessage[] | string,
+      signal: AbortSignal,
+      onProgress: () => void,
+    ) => {
+      const usage: LlmUsage = {
+        provider: cfg.llmProvider || LLMProvider.OPENAI,
+        model: cfg.model,
+        promptTokens: 0,
+        completionTokens: 0,
+      }
+      const addUsage = (part: unknown) => {
+        const tokens = extractUsage(part)
+        if (!tokens) return
+        usage.promptTokens += tokens.promptTokens
+        usage.completionTokens += tokens.completionTokens
+        onUsage?.(tokens)
+      }
+
+      if (!onToken) {
+        const response = await llm.invoke(input, { signal })
+        addUsage(response)
+        return { text: extractText(response), usage }
+      }
+
+      let text = ''
+      const stream = await llm.stream(input, { signal })
+      for await (const chunk of stream) {
+        onProgress()
+        // Providers report usage on one or more chunks (e.g. input at start, output at end)
+        addUsage(chunk)
+        const delta = extractChunkText(chunk)
+        if (!delta) continue
+        streamed = true
+        text += delta
+        onToken(delta)
+      }
+      return { text, usage }
     }
+
+    const { result, fallback } = await runWithFailover(
+      llms,
+      async (cfg, signal, onProgress) => {
+        const llm: BaseLanguageModel = await LLMProviderService.getLLM(cfg)
+        try {
+          return await run(llm, cfg, messages, signal, onProgress)
+        } catch (error) {
+          if (streamed || signal.aborted || isTransientLlmError(error)) throw error
+          return await run(llm, cfg, fallbackPrompt, signal, onProgress)
+        }
+      },
+      { signal: options.signal, canRetry: () => !streamed },
+    )
+    if (fallback) result.usage.fallback = true
+    return result
   }
 
   async deleteKnowledgeBase(kbId: string) {
     await ensurePgVectorSchema(pgPool)
-    const embeddings = await EmbeddingsProviderService.getEmbeddings()
-    const store = new PostgresVectorStore(embeddings, pgPool, kbId)
-    await store.deleteByKnowledgeBase()
+    const client = await pgPool.connect()
+    try {
+      await client.query(`DELETE FROM kb_documents WHERE kb_id = $1`, [kbId])
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Removes chunks whose source document is no longer in `keepDocumentIds`.
+   */
+  async deleteOrphanedVectors(kbId: string, keepDocumentIds: string[]) {
+    await ensurePgVectorSchema(pgPool)
+    const client = await pgPool.connect()
+    try {
+      await client.query(
+        `
+          DELETE FROM kb_documents
+          WHERE kb_id = $1
+            AND ((metadata->>'documentId') IS NULL OR NOT ((metadata->>'documentId') = ANY($2)))
+        `,
+        [kbId, keepDocumentIds],
+      )
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Number of stored chunks of a document embedded with the given model.
+   */
+  async countDocumentVectors(kbId: string, documentId: string, spec: EmbeddingSpec) {
+    await ensurePgVectorSchema(pgPool)
+    const client = await pgPool.connect()
+    try {
+      const res = await client.query<{ count: string }>(
+        `
+          SELECT COUNT(*) AS count FROM kb_documents
+          WHERE kb_id = $1 AND (metadata->>'documentId') = $2 AND embedding_model = $3
+        `,
+        [kbId, documentId, spec.model],
+      )
+      return Number(res.rows[0]?.count ?? 0)
+    } finally {
+      client.release()
+    }
   }
 
   async deleteDocument(kbId: string, documentId: string) {
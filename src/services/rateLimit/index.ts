@@ -0,0 +1,168 @@
+import type {
+  RateLimitResult,
+  RateLimitRoute,
+  RateLimitRule,
+  RateLimitStore,
+  RateLimitStoreDriver,
+  RateLimitWindowCounts,
+} from '../../types/rateLimit'
+import { MemoryRateLimitStore } from './memoryRateLimitStore'
+import { PostgresRateLimitStore } from './postgresRateLimitStore'
+
+type RuleOverrides = Partial<Record<RateLimitRoute, RateLimitRule | null>>
+type RateLimitConfig = { overrides: RuleOverrides; tiers: Map<string, RuleOverrides> }
+
+let store: RateLimitStore | null = null
+let config: RateLimitConfig | null = null
+
+const DEFAULT_RULES: Record<RateLimitRoute, string> = {
+  chat: '30/1m',
+  login: '10/1m',
+  register: '10/1h',
+  password_reset: '5/15m',
+  email_verification: '10/15m',
+}
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 }
+
+export const createRateLimitStore = (driver: RateLimitStoreDriver | string): RateLimitStore => {
+  switch (driver) {
+    case 'memory':
+      return new MemoryRateLimitStore()
+    case 'postgres':
+      return new PostgresRateLimitStore()
+    default:
+      throw new Error(`Unsupported RATE_LIMIT_STORE: ${driver}`)
+  }
+}
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) store = createRateLimitStore(process.env.RATE_LIMIT_STORE?.trim() || 'memory')
+  return store
+}
+
+/**
+ * Parses `<limit>/<window>`, e.g. `30/1m` or `5/15m`; `off` turns the limit off.
+ */
+export const parseRateLimitRule = (value: string): RateLimitRule | null => {
+  const trimmed = value.trim()
+  if (trimmed === 'off') return null
+  const match = /^(\d+)\s*\/\s*(\d*)\s*(s|m|h|d)$/.exec(trimmed)
+  const limit = Number(match?.[1])
+  if (!match || limit < 1) throw new Error(`Invalid rate limit rule: ${value}`)
+  return { limit, windowMs: Number(match[2] || 1) * UNIT_MS[match[3]] }
+}
+
+const readJsonEnv = <T>(name: string): T | null => {
+  const raw = process.env[name]?.trim()
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    throw new Error(`${name} is not valid JSON`)
+  }
+}
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+const parseRuleOverrides = (name: string, value: unknown): RuleOverrides => {
+  if (!isJsonObject(value)) throw new Error(`${name} must be a JSON object`)
+  const overrides: RuleOverrides = {}
+  for (const [route, rule] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(DEFAULT_RULES, route)) {
+      throw new Error(`${name} has unknown rate limit route: ${route}`)
+    }
+    if (typeof rule !== 'string') throw new Error(`${name}.${route} must be a string`)
+    overrides[route as RateLimitRoute] = parseRateLimitRule(rule)
+  }
+  return overrides
+}
+
+const loadRateLimitConfig = (): RateLimitConfig => {
+  const tiers = readJsonEnv<unknown>('RATE_LIMIT_TIERS') ?? {}
+  if (!isJsonObject(tiers)) throw new Error('RATE_LIMIT_TIERS must be a JSON object')
+  return {
+    overrides: parseRuleOverrides('RATE_LIMITS', readJsonEnv<unknown>('RATE_LIMITS') ?? {}),
+    tiers: new Map(
+      Object.entries(tiers).map(([tier, rules]) => [
+        tier,
+        parseRuleOverrides(`RATE_LIMIT_TIERS.${tier}`, rules),
+      ]),
+    ),
+  }
+}
+
+/**
+ * `RATE_LIMITS` and `RATE_LIMIT_TIERS`, parsed once. Throws on invalid settings, so the
+ * server calls it at startup rather than failing requests later.
+ */
+export const getRateLimitConfig = (): RateLimitConfig => {
+  if (!config) config = loadRateLimitConfig()
+  return config
+}
+
+export const isKnownRateLimitTier = (tier: string): boolean => getRateLimitConfig().tiers.has(tier)
+
+/**
+ * Rule of a route: the tier's entry in `RATE_LIMIT_TIERS`, then `RATE_LIMITS`, then the
+ * built-in default. Null when the limit is turned off.
+ */
+export const getRateLimitRule = (
+  route: RateLimitRoute,
+  tier?: string | null,
+): RateLimitRule | null => {
+  const { overrides, tiers } = getRateLimitConfig()
+  const tierRules = tier ? tiers.get(tier) : undefined
+  if (tierRules?.[route] !== undefined) return tierRules[route]
+  if (overrides[route] !== undefined) return overrides[route]
+  return parseRateLimitRule(DEFAULT_RULES[route])
+}
+
+/**
+ * Milliseconds until the sliding-window estimate leaves room for one more hit.
+ */
+const computeRetryAfterMs = (
+  counts: RateLimitWindowCounts,
+  elapsed: number,
+  rule: RateLimitRule,
+): number => {
+  const { limit, windowMs } = rule
+  const target = limit - 1
+  if (counts.current <= target) {
+    // Only the previous window's share has to decay
+    if (counts.previous === 0) return 0
+    return Math.max(0, windowMs * (1 - (target - counts.current) / counts.previous) - elapsed)
+  }
+  // This window alone is full: wait for the next one, then for its share to decay
+  return windowMs - elapsed + windowMs * (1 - target / counts.current)
+}
+
+/**
+ * Sliding-window check for `key`: the previous fixed window counts in proportion to how much
+ * of it still overlaps the last `windowMs`. Counts the hit unless `increment` is false, in
+ * which case it only tells whether one more hit would be allowed.
+ */
+export const consumeRateLimit = async (
+  key: string,
+  rule: RateLimitRule,
+  increment = true,
+): Promise<RateLimitResult> => {
+  const now = Date.now()
+  const windowStart = now - (now % rule.windowMs)
+  const elapsed = now - windowStart
+  const counts = await getRateLimitStore().hit(key, windowStart, rule.windowMs, increment)
+
+  const used = counts.previous * (1 - elapsed / rule.windowMs) + counts.current
+  const allowed = (increment ? used : used + 1) <= rule.limit
+  return {
+    allowed,
+    limit: rule.limit,
+    remaining: Math.max(0, Math.floor(rule.limit - used)),
+    retryAfterMs: allowed ? 0 : computeRetryAfterMs(counts, elapsed, rule),
+  }
+}
+
+export const resetRateLimit = async (key: string): Promise<void> => {
+  await getRateLimitStore().reset(key)
+}
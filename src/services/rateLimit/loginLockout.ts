@@ -0,0 +1,24 @@
+import type { RateLimitResult, RateLimitRule } from '../../types/rateLimit'
+import { consumeRateLimit, resetRateLimit } from './index'
+
+// After LOGIN_MAX_FAILURES failed logins within LOGIN_LOCKOUT_MINUTES the email is locked out
+// until enough of them are older than that
+const getLockoutRule = (): RateLimitRule => ({
+  limit: Number(process.env.LOGIN_MAX_FAILURES || 5),
+  windowMs: Number(process.env.LOGIN_LOCKOUT_MINUTES || 15) * 60_000,
+})
+
+const lockoutKey = (email: string) => `login_failures:${email.trim().toLowerCase()}`
+
+/**
+ * Whether another login attempt is allowed for the email.
+ */
+export const checkLoginLockout = (email: string): Promise<RateLimitResult> =>
+  consumeRateLimit(lockoutKey(email), getLockoutRule(), false)
+
+export const recordLoginFailure = async (email: string): Promise<void> => {
+  await consumeRateLimit(lockoutKey(email), getLockoutRule())
+}
+
+export const clearLoginFailures = (email: string): Promise<void> =>
+  resetRateLimit(lockoutKey(email))
@@ -0,0 +1,46 @@
+import type { RateLimitStore, RateLimitWindowCounts } from '../../types/rateLimit'
+
+type Entry = { windowStart: number; windowMs: number; current: number; previous: number }
+
+const SWEEP_INTERVAL_MS = 60_000
+
+/**
+ * Counters in process memory; each API instance limits on its own.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory'
+  private readonly entries = new Map<string, Entry>()
+  private lastSweep = Date.now()
+
+  async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+    increment: boolean,
+  ): Promise<RateLimitWindowCounts> {
+    this.sweep()
+    let entry = this.entries.get(key)
+    if (!entry || entry.windowMs !== windowMs || entry.windowStart < windowStart - windowMs) {
+      entry = { windowStart, windowMs, current: 0, previous: 0 }
+    } else if (entry.windowStart < windowStart) {
+      entry = { windowStart, windowMs, current: 0, previous: entry.current }
+    }
+    if (increment) entry.current += 1
+    this.entries.set(key, entry)
+    return { current: entry.current, previous: entry.previous }
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+
+  // Drops keys whose windows no longer count
+  private sweep() {
+    const now = Date.now()
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return
+    this.lastSweep = now
+    for (const [key, entry] of this.entries) {
+      if (entry.windowStart + 2 * entry.windowMs <= now) this.entries.delete(key)
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import { In, LessThan } from 'typeorm'
+
+import { AppDataSource } from '../../data-source'
+import { RateLimitCounter } from '../../entities/RateLimitCounter'
+import type { RateLimitStore, RateLimitWindowCounts } from '../../types/rateLimit'
+
+const PRUNE_INTERVAL_MS = 60_000
+
+/**
+ * Counters in the `rate_limit_counter` table, shared by every API instance.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres'
+  private readonly repository = AppDataSource.getRepository(RateLimitCounter)
+  private lastPrune = 0
+
+  async hit(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+    increment: boolean,
+  ): Promise<RateLimitWindowCounts> {
+    await this.prune()
+    const start = new Date(windowStart)
+    const previousStart = new Date(windowStart - windowMs)
+
+    if (increment) {
+      // Atomic under concurrent requests, unlike read-then-save
+      const table = this.repository.metadata.tableName
+      await AppDataSource.query(
+        `
+          INSERT INTO "${table}" ("key", "windowStart", "count", "expiresAt")
+          VALUES ($1, $2, 1, $3)
+          ON CONFLICT ("key", "windowStart") DO UPDATE SET "count" = "${table}"."count" + 1
+        `,
+        [key, start, new Date(windowStart + 2 * windowMs)],
+      )
+    }
+
+    const rows = await this.repository.find({
+      where: { key, windowStart: In([start, previousStart]) },
+    })
+    const countAt = (date: Date) =>
+      rows.find(row => row.windowStart.getTime() === date.getTime())?.count ?? 0
+    return { current: countAt(start), previous: countAt(previousStart) }
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.repository.delete({ key })
+  }
+
+  private async prune() {
+    const now = Date.now()
+    if (now - this.lastPrune < PRUNE_INTERVAL_MS) return
+    this.lastPrune = now
+    await this.repository.delete({ expiresAt: LessThan(new Date(now)) })
+  }
+}
@@ -0,0 +1,48 @@
+import axios from 'axios'
+
+import type { Reranker, RerankResult } from '../../types/rerank'
+
+type RerankApiResponse = {
+  results?: { index: number; relevance_score: number }[]
+}
+
+/**
+ * Cross-encoder behind the rerank API shared by Cohere, Jina, Voyage and self-hosted
+ * servers: `POST { model, query, documents }` returning `results[].relevance_score`.
+ */
+export class CrossEncoderReranker implements Reranker {
+  readonly name = 'cross_encoder'
+
+  async rerank(query: string, passages: string[], signal?: AbortSignal): Promise<RerankResult> {
+    const url = process.env.RERANK_API_URL
+    if (!url) throw new Error('RERANK_API_URL not set')
+
+    const resp = await axios.post<RerankApiResponse>(
+      url,
+      {
+        model: process.env.RERANK_MODEL || 'rerank-v3.5',
+        query,
+        documents: passages,
+        top_n: passages.length,
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          ...(process.env.RERANK_API_KEY
+            ? { Authorization: `Bearer ${process.env.RERANK_API_KEY}` }
+            : {}),
+        },
+        timeout: 30_000,
+        signal,
+      },
+    )
+
+    const scores = passages.map(() => 0)
+    for (const result of resp.data?.results ?? []) {
+      if (result.index >= 0 && result.index < scores.length) {
+        scores[result.index] = Number(result.relevance_score) || 0
+      }
+    }
+    return { scores }
+  }
+}
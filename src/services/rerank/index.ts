@@ -0,0 +1,22 @@
+import { RerankerType } from '../../entities/KnowledgeBase'
+import type { Reranker } from '../../types/rerank'
+import { CrossEncoderReranker } from './crossEncoderReranker'
+import { LexicalReranker } from './lexicalReranker'
+import { LlmReranker } from './llmReranker'
+
+const factories: Record<RerankerType, () => Reranker> = {
+  [RerankerType.LLM]: () => new LlmReranker(),
+  [RerankerType.CROSS_ENCODER]: () => new CrossEncoderReranker(),
+  [RerankerType.LEXICAL]: () => new LexicalReranker(),
+}
+
+const rerankers = new Map<RerankerType, Reranker>()
+
+export const getReranker = (type: RerankerType): Reranker => {
+  let reranker = rerankers.get(type)
+  if (!reranker) {
+    reranker = factories[type]()
+    rerankers.set(type, reranker)
+  }
+  return reranker
+}
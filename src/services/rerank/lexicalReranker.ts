@@ -0,0 +1,25 @@
+import type { Reranker, RerankResult } from '../../types/rerank'
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(token => token.length > 1)
+
+/**
+ * Share of the question's distinct terms found in each passage. Deterministic and free,
+ * so it serves offline setups and tests.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical'
+
+  async rerank(query: string, passages: string[]): Promise<RerankResult> {
+    const terms = new Set(tokenize(query))
+    if (terms.size === 0) return { scores: passages.map(() => 0) }
+
+    const scores = passages.map(passage => {
+      const words = new Set(tokenize(passage))
+      let matched = 0
+      for (const term of terms) if (words.has(term)) matched++
+      return matched / terms.size
+    })
+    return { scores }
+  }
+}
@@ -0,0 +1,51 @@
+import { HumanMessage, SystemMessage } from '@langchain/core/messages'
+
+import type { LlmSettings } from '../../types/llm'
+import type { Reranker, RerankResult } from '../../types/rerank'
+import { invokeWithFailover } from '../llmFailover'
+import { extractText, extractUsage } from '../rag/ragPrompt'
+
+// Passages are cut to keep the scoring prompt small; the start of a chunk is usually enough.
+const PASSAGE_MAX_CHARS = 1000
+
+const SYSTEM_PROMPT = [
+  'You rate how useful each numbered passage is for answering the question.',
+  'Score every passage from 0 (irrelevant) to 10 (answers the question directly).',
+  'Reply with a JSON array of integers only, one score per passage in the given order, e.g. [7, 0, 3].',
+].join('\n')
+
+/**
+ * Scores passages with the answering chat model in a single call.
+ */
+export class LlmReranker implements Reranker {
+  readonly name = 'llm'
+
+  async rerank(
+    query: string,
+    passages: string[],
+    signal?: AbortSignal,
+    llms?: LlmSettings[],
+  ): Promise<RerankResult> {
+    const numbered = passages
+      .map((passage, i) => `[${i + 1}]\n${passage.slice(0, PASSAGE_MAX_CHARS)}`)
+      .join('\n\n')
+    const response = await invokeWithFailover(
+      llms,
+      [
+        new SystemMessage(SYSTEM_PROMPT),
+        new HumanMessage(`QUESTION:\n${query}\n\nPASSAGES:\n\n${numbered}`),
+      ],
+      signal,
+    )
+
+    const match = extractText(response).match(/\[[\d\s.,]*\]/)
+    const parsed: unknown = match ? JSON.parse(match[0]) : null
+    if (!Array.isArray(parsed) || parsed.length !== passages.length) {
+      throw new Error('Reranker reply does not contain one score per passage')
+    }
+    return {
+      scores: parsed.map(score => Math.min(Math.max(Number(score) || 0, 0), 10) / 10),
+      usage: extractUsage(response) ?? undefined,
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import type { FileStorage, StorageDriver } from '../../types/storage'
+import { LocalFileStorage } from './localFileStorage'
+import { S3FileStorage } from './s3FileStorage'
+
+let storage: FileStorage | null = null
+
+export const createFileStorage = (driver: StorageDriver | string): FileStorage => {
+  switch (driver) {
+    case 'local':
+      return new LocalFileStorage()
+    case 's3':
+      return new S3FileStorage()
+    default:
+      throw new Error(`Unsupported STORAGE_DRIVER: ${driver}`)
+  }
+}
+
+export const getFileStorage = (): FileStorage => {
+  if (!storage) storage = createFileStorage(process.env.STORAGE_DRIVER?.trim() || 'local')
+  return storage
+}
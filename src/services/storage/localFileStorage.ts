@@ -0,0 +1,63 @@
+import fs from 'fs'
+import path from 'path'
+import type { Readable } from 'stream'
+
+import type { FileStorage } from '../../types/storage'
+
+export const getUploadsDir = (): string => {
+  const configured = process.env.UPLOADS_DIR?.trim()
+  if (configured)
+    return path.isAbsolute(configured) ? configured : path.join(process.cwd(), configured)
+  return path.join(process.cwd(), 'uploads')
+}
+
+/**
+ * Files under `UPLOADS_DIR`. Only suitable when the disk outlives the process (not on
+ * ephemeral dynos/containers).
+ */
+export class LocalFileStorage implements FileStorage {
+  readonly name = 'local'
+
+  constructor(private readonly root: string = getUploadsDir()) {}
+
+  /**
+   * Keys are relative to the uploads directory. Absolute paths are accepted as-is because
+   * rows written before storage keys hold the full path of the file.
+   */
+  resolvePath(key: string): string {
+    if (path.isAbsolute(key)) return key
+    const root = path.resolve(this.root)
+    const resolved = path.resolve(root, key)
+    if (!resolved.startsWith(root + path.sep)) throw new Error(`Invalid storage key: ${key}`)
+    return resolved
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.resolvePath(key)
+    await fs.promises.mkdir(path.dirname(target), { recursive: true })
+    await fs.promises.writeFile(target, data)
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return await fs.promises.readFile(this.resolvePath(key))
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key)
+    await fs.promises.access(filePath)
+    return fs.createReadStream(filePath)
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolvePath(key))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolvePath(key), { force: true })
+  }
+}
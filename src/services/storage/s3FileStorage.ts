@@ -0,0 +1,95 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3'
+import { Readable } from 'stream'
+
+import type { FileStorage } from '../../types/storage'
+
+const isNotFound = (error: unknown): boolean => {
+  const e = error as { name?: string; $metadata?: { httpStatusCode?: number } } | null
+  return e?.name === 'NotFound' || e?.name === 'NoSuchKey' || e?.$metadata?.httpStatusCode === 404
+}
+
+/**
+ * Amazon S3 or any S3-compatible server (MinIO, R2, Spaces) when `S3_ENDPOINT` is set.
+ * Without `S3_ACCESS_KEY_ID` the SDK's default credential chain is used.
+ */
+export class S3FileStorage implements FileStorage {
+  readonly name = 's3'
+  private readonly client: S3Client
+  private readonly bucket: string
+  private readonly prefix: string
+
+  constructor() {
+    const bucket = process.env.S3_BUCKET?.trim()
+    if (!bucket) throw new Error('S3_BUCKET not set')
+    this.bucket = bucket
+    this.prefix = (process.env.S3_PREFIX || '').replace(/^\/+|\/+$/g, '')
+
+    const endpoint = process.env.S3_ENDPOINT?.trim() || undefined
+    const accessKeyId = process.env.S3_ACCESS_KEY_ID
+    const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint,
+      // Self-hosted servers usually only serve path-style URLs (http://host/bucket/key)
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : Boolean(endpoint),
+      credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    })
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix ? `${this.prefix}/${key}` : key
+  }
+
+  async put(key: string, data: Buffer, contentType?: string): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.objectKey(key),
+        Body: data,
+        ContentType: contentType,
+      }),
+    )
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const { Body } = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+    )
+    if (!Body) throw new Error(`Empty object: ${key}`)
+    return Buffer.from(await Body.transformToByteArray())
+  }
+
+  async createReadStream(key: string): Promise<Readable> {
+    const { Body } = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+    )
+    if (!(Body instanceof Readable)) throw new Error(`Object is not streamable: ${key}`)
+    return Body
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+      )
+      return true
+    } catch (error) {
+      if (isNotFound(error)) return false
+      throw error
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+    )
+  }
+}
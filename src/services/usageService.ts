@@ -0,0 +1,122 @@
+import { AppDataSource } from '../data-source'
+import { License } from '../entities/License'
+import { UsageEvent, UsageEventType } from '../entities/UsageEvent'
+import type { MonthlyUsageRow, QuotaExceeded } from '../types/usage'
+
+const usageRepository = AppDataSource.getRepository(UsageEvent)
+
+export const getMonthStart = (date: Date = new Date()): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+
+export const getNextMonthStart = (date: Date = new Date()): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+
+/**
+ * Writes a ledger row. Metering must never fail the request it measures, so errors are
+ * only logged.
+ */
+export const recordUsageEvent = async (event: Partial<UsageEvent>) => {
+  try {
+    await usageRepository.save(usageRepository.create(event))
+  } catch (error) {
+    console.error('Error recording usage event:', error)
+  }
+}
+
+/**
+ * Questions and tokens of the license's chats this month. Ingestion is metered in the ledger
+ * but does not count toward the chat quotas.
+ */
+export const getLicenseMonthUsage = async (
+  licenseId: string,
+  now: Date = new Date(),
+): Promise<{ questions: number; tokens: number }> => {
+  const row = await usageRepository
+    .createQueryBuilder('event')
+    .select('COUNT(*)', 'questions')
+    .addSelect('COALESCE(SUM(event.promptTokens + event.completionTokens), 0)', 'tokens')
+    .where('event.licenseId = :licenseId', { licenseId })
+    .andWhere('event.type = :chat', { chat: UsageEventType.CHAT })
+    .andWhere('event.createdAt >= :from', { from: getMonthStart(now) })
+    .getRawOne<{ questions: string; tokens: string }>()
+
+  return { questions: Number(row?.questions ?? 0), tokens: Number(row?.tokens ?? 0) }
+}
+
+/**
+ * Returns the first exceeded monthly quota of the license, or null when it may still ask.
+ */
+export const checkLicenseQuota = async (license: License): Promise<QuotaExceeded | null> => {
+  const { monthlyQuestionQuota, monthlyTokenQuota } = license
+  if (monthlyQuestionQuota === null && monthlyTokenQuota === null) return null
+
+  const now = new Date()
+  const used = await getLicenseMonthUsage(license.id, now)
+  const resetsAt = getNextMonthStart(now)
+
+  if (monthlyQuestionQuota !== null && used.questions >= monthlyQuestionQuota) {
+    return { quota: 'questions', limit: monthlyQuestionQuota, used: used.questions, resetsAt }
+  }
+  if (monthlyTokenQuota !== null && used.tokens >= monthlyTokenQuota) {
+    return { quota: 'tokens', limit: monthlyTokenQuota, used: used.tokens, resetsAt }
+  }
+  return null
+}
+
+/**
+ * Usage per license and calendar month (UTC), newest month first.
+ */
+export const summarizeMonthlyUsage = async (filters: {
+  licenseId?: string
+  from?: Date
+  to?: Date
+}): Promise<MonthlyUsageRow[]> => {
+  const qb = usageRepository
+    .createQueryBuilder('event')
+    .leftJoin('event.license', 'license')
+    .select('event.licenseId', 'licenseId')
+    .addSelect('license.key', 'licenseKey')
+    .addSelect('license.monthlyQuestionQuota', 'monthlyQuestionQuota')
+    .addSelect('license.monthlyTokenQuota', 'monthlyTokenQuota')
+    .addSelect(`to_char(date_trunc('month', event.createdAt), 'YYYY-MM')`, 'month')
+    .addSelect('COUNT(*) FILTER (WHERE event.type = :chat)', 'questions')
+    .addSelect('COUNT(*) FILTER (WHERE event.type = :ingestion)', 'ingestions')
+    .addSelect('COALESCE(SUM(event.promptTokens), 0)', 'promptTokens')
+    .addSelect('COALESCE(SUM(event.completionTokens), 0)', 'completionTokens')
+    .addSelect(
+      'COALESCE(ROUND(AVG(event.latencyMs) FILTER (WHERE event.type = :chat)), 0)',
+      'avgLatencyMs',
+    )
+    .setParameters({ chat: UsageEventType.CHAT, ingestion: UsageEventType.INGESTION })
+    .groupBy('event.licenseId')
+    .addGroupBy('license.key')
+    .addGroupBy('license.monthlyQuestionQuota')
+    .addGroupBy('license.monthlyTokenQuota')
+    .addGroupBy('month')
+    .orderBy('month', 'DESC')
+    .addOrderBy('license.key', 'ASC')
+
+  if (filters.licenseId) qb.andWhere('event.licenseId = :licenseId', filters)
+  if (filters.from) qb.andWhere('event.createdAt >= :from', { from: filters.from })
+  if (filters.to) qb.andWhere('event.createdAt < :to', { to: filters.to })
+
+  const rows = await qb.getRawMany<Record<string, string | number | null>>()
+  return rows.map(row => {
+    const promptTokens = Number(row.promptTokens ?? 0)
+    const completionTokens = Number(row.completionTokens ?? 0)
+    return {
+      licenseId: (row.licenseId as string | null) ?? null,
+      licenseKey: (row.licenseKey as string | null) ?? null,
+      month: String(row.month),
+      questions: Number(row.questions ?? 0),
+      ingestions: Number(row.ingestions ?? 0),
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      avgLatencyMs: Number(row.avgLatencyMs ?? 0),
+      monthlyQuestionQuota:
+        row.monthlyQuestionQuota === null ? null : Number(row.monthlyQuestionQuota),
+      monthlyTokenQuota: row.monthlyTokenQuota === null ? null : Number(row.monthlyTokenQuota),
+    }
+  })
+}
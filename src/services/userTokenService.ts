@@ -0,0 +1,54 @@
+import { IsNull, MoreThan } from 'typeorm'
+
+import { AppDataSource } from '../data-source'
+import { UserToken, UserTokenPurpose } from '../entities/UserToken'
+import { generateOpaqueToken, hashToken } from '../utils/tokens'
+
+const userTokenRepository = AppDataSource.getRepository(UserToken)
+
+const TOKEN_TTL_MS: Record<UserTokenPurpose, number> = {
+  [UserTokenPurpose.PASSWORD_RESET]: Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60) * 60_000,
+  [UserTokenPurpose.EMAIL_VERIFICATION]:
+    Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 48) * 60 * 60_000,
+}
+
+/**
+ * Creates a single-use token for the user. Earlier unused tokens with the same purpose
+ * are invalidated so only the latest email works.
+ */
+export const createUserToken = async (
+  userId: string,
+  purpose: UserTokenPurpose,
+): Promise<{ token: string; expiresAt: Date }> => {
+  const token = generateOpaqueToken()
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MS[purpose])
+
+  await AppDataSource.transaction(async manager => {
+    const repository = manager.getRepository(UserToken)
+    await repository.update({ userId, purpose, usedAt: IsNull() }, { usedAt: new Date() })
+    await repository.save(
+      repository.create({ userId, purpose, tokenHash: hashToken(token), expiresAt }),
+    )
+  })
+
+  return { token, expiresAt }
+}
+
+/**
+ * Marks the token as used and returns its user id, or null when it is unknown, expired,
+ * already used or meant for another purpose. The conditional update makes it single-use
+ * even under concurrent requests.
+ */
+export const consumeUserToken = async (
+  token: string,
+  purpose: UserTokenPurpose,
+): Promise<string | null> => {
+  const existing = await userTokenRepository.findOneBy({ tokenHash: hashToken(token), purpose })
+  if (!existing) return null
+
+  const { affected } = await userTokenRepository.update(
+    { id: existing.id, usedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+    { usedAt: new Date() },
+  )
+  return affected ? existing.userId : null
+}
@@ -0,0 +1,55 @@
+import type { AuditTargetType } from '../entities/AuditEvent'
+
+export type AuditAction =
+  | 'license.create'
+  | 'license.update_validity'
+  | 'license.activate'
+  | 'license.deactivate'
+  | 'license.set_knowledge_bases'
+  | 'license.attach_knowledge_base'
+  | 'license.set_quotas'
+  | 'license.set_llm_overrides'
+  | 'user.update'
+  | 'user.set_password'
+  | 'user.delete'
+  | 'knowledge_base.create'
+  | 'knowledge_base.update'
+  | 'knowledge_base.reindex'
+  | 'knowledge_base.delete'
+  | 'document.upload'
+  | 'document.replace'
+  | 'document.rollback'
+  | 'document.delete'
+  | 'ai_config.update'
+  | 'api_key.create'
+  | 'api_key.rotate'
+  | 'api_key.revoke'
+  | 'ingestion_job.retry'
+  | 'ingestion_job.cancel'
+
+/**
+ * Fields that differ between the target before and after the change. Secrets only show
+ * that they changed.
+ */
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>
+
+export type AuditEventItem = {
+  id: string
+  actorUserId: string | null
+  /** Null once the actor was deleted */
+  actorEmail: string | null
+  action: AuditAction
+  targetType: AuditTargetType
+  targetId: string | null
+  changes: AuditChanges | null
+  createdAt: Date
+}
+
+export type AuditEventFilters = {
+  actorUserId?: string
+  targetType?: string
+  targetId?: string
+  action?: string
+  from?: Date
+  to?: Date
+}
@@ -0,0 +1,31 @@
+import type { ApiKeyScope } from '../entities/ApiKey'
+
+export type AuthTokens = {
+  token: string
+  refreshToken: string
+}
+
+export type RefreshResult =
+  { ok: true; tokens: AuthTokens } | { ok: false; reason: 'invalid' | 'expired' | 'reused' }
+
+/**
+ * API key listing entry; the key itself is only returned when created or rotated.
+ */
+export type ApiKeySummary = {
+  id: string
+  licenseId: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  lastUsedAt: Date | null
+  rotatedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+// Set on requests authenticated with an API key
+export type ApiKeyPrincipal = {
+  id: string
+  licenseId: string
+  scopes: ApiKeyScope[]
+}
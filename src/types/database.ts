@@ -1,6 +1,7 @@
 import { JsonObject } from './json'
 
 export type DbDocumentRow = {
+  id: string
   content: string
   metadata: JsonObject | null
   score: number
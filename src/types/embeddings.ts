@@ -0,0 +1,17 @@
+import type { EmbeddingProvider } from '../entities/KnowledgeBase'
+
+export type EmbeddingSpec = {
+  provider: EmbeddingProvider
+  model: string
+  /**
+   * Vector length. `null` when the model is unknown; it is then recorded from the first
+   * embedded chunk.
+   */
+  dimension: number | null
+}
+
+export type EmbeddingSpecInput = {
+  provider?: EmbeddingProvider | null
+  model?: string | null
+  dimension?: number | null
+}
@@ -0,0 +1,27 @@
+import type { DocumentFormat } from '../entities/Document'
+import type { OcrSummary } from './ocr'
+import type { IngestPage } from './rag'
+
+export type ExtractedDocument = {
+  text: string
+  /** Only paginated formats (PDF) report pages */
+  pageCount: number | null
+  pages: IngestPage[]
+  /** Set when some pages were read with OCR */
+  ocr?: OcrSummary
+}
+
+export type ExtractOptions = {
+  /** Run OCR on pages without a usable text layer (scanned PDFs) */
+  ocr?: boolean
+}
+
+export type DocumentExtractor = {
+  format: DocumentFormat
+  /** Lower-case extensions including the dot; the first one is used for files without one */
+  extensions: string[]
+  mimeTypes: string[]
+  /** Content-Type used when serving the stored file */
+  contentType: string
+  extract(data: Buffer, options?: ExtractOptions): Promise<ExtractedDocument>
+}
@@ -5,3 +5,14 @@ export * from './pdf'
 export * from './kb'
 export * from './pagination'
 export * from './database'
+export * from './ingestion'
+export * from './embeddings'
+export * from './usage'
+export * from './auth'
+export * from './mail'
+export * from './extraction'
+export * from './ocr'
+export * from './llm'
+export * from './storage'
+export * from './rateLimit'
+export * from './audit'
@@ -0,0 +1,6 @@
+import type { IngestionItemStatus } from '../entities/IngestionJobItem'
+
+export type IngestionJobStatus =
+  'queued' | 'running' | 'completed' | 'completed_with_errors' | 'cancelled'
+
+export type IngestionItemCounts = Record<IngestionItemStatus, number>
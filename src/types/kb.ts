@@ -1,13 +1,38 @@
+import type { DocumentFormat } from '../entities/Document'
+
 export type UploadedDocumentSummary = {
   id: string
   fileName: string
-  pageCount: number
+  format: DocumentFormat
+  createdAt: Date
+}
+
+export type KBOrder = Partial<Record<'createdAt' | 'updatedAt' | 'name', 'ASC' | 'DESC'>>
+
+export type DocumentOrder = Partial<Record<'createdAt' | 'updatedAt' | 'fileName', 'ASC' | 'DESC'>>
+
+export type DocumentListItem = {
+  id: string
+  fileName: string
+  format: DocumentFormat
+  currentVersion: number
   createdAt: Date
+  updatedAt: Date
+  // Signed link bound to the license that listed the documents
+  downloadUrl: string
+  downloadUrlExpiresAt: Date
 }
 
-export type UploadError = {
+export type RejectedUploadSummary = {
   fileName: string
+  // Why the file cannot be ingested, e.g. a `.pdf` without a PDF header
   error: string
 }
 
-export type KBOrder = Partial<Record<'createdAt' | 'updatedAt' | 'name', 'ASC' | 'DESC'>>
+export type DuplicateUploadSummary = {
+  fileName: string
+  contentHash: string
+  // Null for a rejected file whose twin is in the same upload
+  existingDocumentId: string | null
+  existingFileName: string
+}
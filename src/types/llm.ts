@@ -0,0 +1,21 @@
+import type { Configuration } from '../entities/Configuration'
+
+/**
+ * Chat model settings a request is answered with: the default AI configuration, with the
+ * license's and knowledge base's overrides applied.
+ */
+export type LlmSettings = Pick<
+  Configuration,
+  | 'llmProvider'
+  | 'model'
+  | 'temperature'
+  | 'maxTokens'
+  | 'topP'
+  | 'topK'
+  | 'frequencyPenalty'
+  | 'presencePenalty'
+  | 'stopSequences'
+>
+
+/** Fields left out inherit the next layer down. */
+export type LlmOverrides = Partial<LlmSettings>
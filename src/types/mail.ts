@@ -0,0 +1,14 @@
+export type MailMessage = {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+/**
+ * Delivers outgoing mail. Implementations: SMTP for production, file and console for
+ * development and tests.
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
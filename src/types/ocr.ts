@@ -0,0 +1,23 @@
+export type OcrResult = {
+  text: string
+  /** Mean word confidence reported by the engine, 0-100 */
+  confidence: number
+}
+
+/**
+ * Recognizes text in a rendered page image. The default implementation is Tesseract.
+ */
+export interface OcrEngine {
+  readonly name: string
+  recognize(image: Buffer): Promise<OcrResult>
+}
+
+export type OcrPageConfidence = {
+  pageNumber: number
+  confidence: number
+}
+
+export type OcrSummary = {
+  engine: string
+  pages: OcrPageConfidence[]
+}
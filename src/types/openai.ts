@@ -1,4 +1,5 @@
 import { ChatHistoryItem } from './rag'
+import type { TokenUsage } from './usage'
 
 export type OpenAIWebSearchTool = {
   type: 'web_search'
@@ -14,6 +15,7 @@ export type OpenAIResponsesCreateRequest = {
   top_p?: number
   frequency_penalty?: number
   presence_penalty?: number
+  stream?: boolean
 }
 
 export type OpenAIUrlCitationAnnotation = {
@@ -41,9 +43,15 @@ export type OpenAIOutputItem =
       [k: string]: unknown
     }
 
+export type OpenAIResponsesUsage = {
+  input_tokens?: number
+  output_tokens?: number
+}
+
 export type OpenAIResponsesCreateResponse = {
   output_text?: string
   output?: OpenAIOutputItem[]
+  usage?: OpenAIResponsesUsage
 }
 
 export type WebSearchParams = {
@@ -58,8 +66,20 @@ export type WebSearchParams = {
   frequencyPenalty?: number | null
   presencePenalty?: number | null
   externalWebAccess?: boolean
+  /** When set, the Responses API is called with `stream: true` and text deltas are passed here. */
+  onDelta?: (delta: string) => void
+  signal?: AbortSignal
+}
+
+export type OpenAIResponsesStreamEvent = {
+  type?: string
+  delta?: string
+  response?: OpenAIResponsesCreateResponse
+  error?: { message?: string }
+  message?: string
 }
 
 export type OpenAIWebSearchResponse = {
   answerMarkdown: string
+  usage: TokenUsage | null
 }
@@ -1,17 +1,43 @@
+import type { IngestPage } from './rag'
+
+export type PdfPageText = {
+  num: number
+  text: string
+}
+
 export type PdfParseResult = {
   text: string
-  pages?: unknown[]
+  pages?: PdfPageText[]
 }
 
 export type PdfParseOpts = {
   data: Buffer
 }
 
+export type PdfScreenshotParams = {
+  partial?: number[]
+  scale?: number
+  imageDataUrl?: boolean
+  imageBuffer?: boolean
+}
+
+export type PdfScreenshotResult = {
+  pages: { pageNumber: number; data: Uint8Array }[]
+}
+
 export type PdfParseCtor = new (opts: PdfParseOpts) => {
   getText(): Promise<PdfParseResult>
+  getScreenshot(params?: PdfScreenshotParams): Promise<PdfScreenshotResult>
+  destroy(): Promise<void>
 }
 
 export type PdfParseModule = {
   PDFParse?: PdfParseCtor
   default?: { PDFParse?: PdfParseCtor }
 }
+
+export type ExtractedPdfText = {
+  text: string
+  pageCount: number
+  pages: IngestPage[]
+}
@@ -1,4 +1,7 @@
 import { BaseMessage } from '@langchain/core/messages'
+import type { ChunkingStrategy } from '../entities/KnowledgeBase'
+import type { LlmOverrides } from './llm'
+import type { LlmUsage, TokenUsage } from './usage'
 
 export type ChatRole = 'user' | 'assistant' | 'system'
 
@@ -9,6 +12,34 @@ export type ChatHistoryItem = {
 
 export type IngestMetadata = Record<string, unknown> | null
 
+export type IngestPage = {
+  pageNumber: number
+  text: string
+}
+
+export type ChunkingSettings = {
+  strategy: ChunkingStrategy
+  chunkSize: number
+  chunkOverlap: number
+  separators: string[] | null
+}
+
+/**
+ * One retrieval pass: `embedText` is embedded for vector search, `keywordText` feeds
+ * full-text search in hybrid mode (they differ for hypothetical passages).
+ */
+export type SearchQuery = {
+  embedText: string
+  keywordText: string
+}
+
+export type QueryExpansion = {
+  /** The question rewritten to stand on its own (the original when not rewritten) */
+  question: string
+  queries: SearchQuery[]
+  usage: TokenUsage
+}
+
 export type KbScore = {
   kbId: string | null
   score: number
@@ -26,3 +57,48 @@ export type BuildGlobalMessagesParams = {
   history: BaseMessage[]
   question: string
 }
+
+export type RagQueryOptions = {
+  /** When set, the answer is streamed and every text delta is passed here. */
+  onToken?: (delta: string) => void
+  signal?: AbortSignal
+  /**
+   * Receives token counts as each LLM call reports them, so usage is metered even when the
+   * answer fails or the client disconnects before it completes.
+   */
+  onUsage?: (usage: TokenUsage) => void
+  /** LLM overrides of the license asking; the knowledge base's own overrides win. */
+  licenseLlm?: LlmOverrides | null
+}
+
+export type ChatAnswerMode = 'kb' | 'multi_kb' | 'global'
+
+/**
+ * `matched` when chunks cleared the relevance threshold, otherwise the no-match policy
+ * that was applied.
+ */
+export type RetrievalOutcome = 'matched' | 'refused' | 'global_fallback' | 'low_confidence'
+
+export type RagSource = {
+  /** 1-based number the model uses for inline `[n]` references */
+  index: number
+  documentId: string | null
+  fileName: string | null
+  kbId: string | null
+  pageStart: number | null
+  pageEnd: number | null
+  score: number
+  snippet: string
+  downloadUrl: string | null
+}
+
+export type RagAnswer = {
+  answer: string
+  sources: RagSource[]
+  /** Path actually taken (a KB query without vectors falls back to `global`) */
+  mode: ChatAnswerMode
+  /** Set for KB questions; `low_confidence` answers rest on chunks below the threshold */
+  retrieval?: RetrievalOutcome
+  /** LLM that produced the answer and its token counts, for usage metering */
+  usage?: LlmUsage
+}
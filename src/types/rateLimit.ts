@@ -0,0 +1,39 @@
+export type RateLimitStoreDriver = 'memory' | 'postgres'
+
+/**
+ * Endpoints with their own limit. `chat` is counted per license (with per-tier limits),
+ * the auth endpoints per client IP.
+ */
+export type RateLimitRoute = 'chat' | 'login' | 'register' | 'password_reset' | 'email_verification'
+
+export type RateLimitRule = { limit: number; windowMs: number }
+
+// Hits in the fixed window containing `now` and in the one before it
+export type RateLimitWindowCounts = { current: number; previous: number }
+
+export type RateLimitResult = {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** 0 when allowed */
+  retryAfterMs: number
+}
+
+/**
+ * Hit counters behind the sliding-window limits. The memory store only works for a single
+ * API process; the Postgres store shares counters between instances.
+ */
+export interface RateLimitStore {
+  readonly name: string
+  /**
+   * Counts of the window starting at `windowStart` and the previous one, after adding one
+   * hit when `increment` is set.
+   */
+  hit(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+    increment: boolean,
+  ): Promise<RateLimitWindowCounts>
+  reset(key: string): Promise<void>
+}
@@ -0,0 +1,24 @@
+import type { LlmSettings } from './llm'
+import type { TokenUsage } from './usage'
+
+export type RerankResult = {
+  /** Relevance of each passage to the query, 0-1, in the order the passages were given */
+  scores: number[]
+  /** Tokens spent when the reranker calls the chat model */
+  usage?: TokenUsage
+}
+
+/**
+ * Scores retrieved passages against the question so candidates from different knowledge
+ * bases (or retrieval modes) can be ordered on one scale.
+ */
+export interface Reranker {
+  readonly name: string
+  /** `llms` are the chat models the answer uses, in failover order, for rerankers that call one. */
+  rerank(
+    query: string,
+    passages: string[],
+    signal?: AbortSignal,
+    llms?: LlmSettings[],
+  ): Promise<RerankResult>
+}
@@ -0,0 +1,18 @@
+import type { Readable } from 'stream'
+
+export type StorageDriver = 'local' | 's3'
+
+/**
+ * Where uploaded source files live. Documents and versions keep the storage key in
+ * `filePath`, so files can move between backends without touching the ingestion code.
+ */
+export interface FileStorage {
+  readonly name: string
+  put(key: string, data: Buffer, contentType?: string): Promise<void>
+  get(key: string): Promise<Buffer>
+  /** Streams a stored file; rejects when it does not exist. */
+  createReadStream(key: string): Promise<Readable>
+  exists(key: string): Promise<boolean>
+  /** Deleting a missing file is not an error. */
+  delete(key: string): Promise<void>
+}
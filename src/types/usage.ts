@@ -0,0 +1,42 @@
+export type TokenUsage = {
+  promptTokens: number
+  completionTokens: number
+}
+
+export type LlmUsage = TokenUsage & {
+  provider: string
+  model: string | null
+  /** Set when a fallback answered because the resolved LLM failed */
+  fallback?: boolean
+}
+
+export type IngestResult = {
+  chunkCount: number
+  /** Chunks whose embedding was reused from identical stored chunks */
+  reusedChunkCount: number
+  provider: string
+  model: string
+  /** Embedding APIs don't report usage through LangChain; estimated from text length */
+  estimatedTokens: number
+}
+
+export type QuotaExceeded = {
+  quota: 'questions' | 'tokens'
+  limit: number
+  used: number
+  resetsAt: Date
+}
+
+export type MonthlyUsageRow = {
+  licenseId: string | null
+  licenseKey: string | null
+  month: string
+  questions: number
+  ingestions: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  avgLatencyMs: number
+  monthlyQuestionQuota: number | null
+  monthlyTokenQuota: number | null
+}
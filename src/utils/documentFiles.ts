@@ -0,0 +1,128 @@
+import fs from 'fs'
+import path from 'path'
+import { Document } from '../entities/Document'
+import type { ExtractedPdfText, PdfParseCtor, PdfParseModule, PdfParseResult } from '../types/pdf'
+import type { IngestPage } from '../types/rag'
+import { getFileStorage } from '../services/storage'
+import { getUploadsDir } from '../services/storage/localFileStorage'
+
+// Lazy load pdf-parse only when needed to avoid memory issues at startup
+let PDFParse: PdfParseCtor | null = null
+export const getPdfParse = async (): Promise<PdfParseCtor> => {
+  if (!PDFParse) {
+    const pdfParseModule = (await import('pdf-parse')) as PdfParseModule
+    const ctor = pdfParseModule.PDFParse ?? pdfParseModule.default?.PDFParse
+    if (!ctor) {
+      throw new Error('pdf-parse module did not export PDFParse constructor')
+    }
+    PDFParse = ctor
+  }
+  return PDFParse
+}
+
+export const extractPdfText = async (data: Buffer): Promise<ExtractedPdfText> => {
+  const PDFParseClass = await getPdfParse()
+  const parser = new PDFParseClass({ data })
+  const result = await parser.getText()
+  return {
+    text: result?.text || '',
+    pageCount: result?.pages?.length || 0,
+    pages: toIngestPages(result),
+  }
+}
+
+/**
+ * Renders the given 1-based pages to PNG, one page at a time to bound memory use.
+ */
+export const renderPdfPages = async (
+  data: Buffer,
+  pageNumbers: number[],
+  scale: number,
+  onPage: (pageNumber: number, image: Buffer) => Promise<void>,
+) => {
+  const PDFParseClass = await getPdfParse()
+  // pdf.js may take ownership of the bytes it is given, so the caller's buffer is copied
+  const parser = new PDFParseClass({ data: Buffer.from(data) })
+  try {
+    for (const pageNumber of pageNumbers) {
+      const result = await parser.getScreenshot({
+        partial: [pageNumber],
+        scale,
+        imageDataUrl: false,
+        imageBuffer: true,
+      })
+      const page = result.pages[0]
+      if (page?.data) await onPage(pageNumber, Buffer.from(page.data))
+    }
+  } finally {
+    await parser.destroy()
+  }
+}
+
+/**
+ * Keeps per-page text from pdf-parse so chunks can record which pages they came from.
+ */
+export const toIngestPages = (result: PdfParseResult | null | undefined): IngestPage[] =>
+  (result?.pages ?? []).map((page, i) => ({
+    pageNumber: Number.isInteger(page?.num) && page.num > 0 ? page.num : i + 1,
+    text: typeof page?.text === 'string' ? page.text : '',
+  }))
+
+/**
+ * Local path of a file recorded before storage keys: the stored path, the name in the
+ * uploads directory, or (when paths drifted) the newest `<name>-<uuid>` upload.
+ * Only used to migrate such files into the storage backend.
+ */
+export const resolveLegacyDocumentPath = (
+  doc: Pick<Document, 'fileName' | 'filePath'>,
+): string | null => {
+  const uploadsDir = getUploadsDir()
+
+  const candidates: string[] = []
+  if (doc.filePath) {
+    candidates.push(
+      path.isAbsolute(doc.filePath) ? doc.filePath : path.join(process.cwd(), doc.filePath),
+    )
+    candidates.push(path.join(uploadsDir, doc.filePath))
+  }
+  if (doc.fileName) {
+    candidates.push(path.join(uploadsDir, doc.fileName))
+  }
+
+  for (const p of candidates) {
+    if (p && fs.existsSync(p)) return p
+  }
+
+  // Fallback: if disk filename has UUID suffix, try to find by base name prefix in uploadsDir.
+  // Example: "manual.pdf" might exist as "manual-<uuid>.pdf"
+  try {
+    const ext = path.extname(doc.fileName || '').toLowerCase() || '.pdf'
+    const base = path.basename(doc.fileName || '', ext)
+    if (!base) return null
+    const files = fs.readdirSync(uploadsDir)
+    const matches = files
+      .filter(f => f.toLowerCase().endsWith(ext) && f.startsWith(`${base}-`))
+      .map(f => path.join(uploadsDir, f))
+      .filter(p => fs.existsSync(p))
+    if (!matches.length) return null
+    matches.sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)
+    return matches[0]
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Deletes stored files, logging (not throwing) on failure so database cleanup still runs.
+ */
+export const deleteStoredFiles = async (keys: string[]) => {
+  const storage = getFileStorage()
+  for (const key of new Set(keys)) {
+    if (!key) continue
+    try {
+      await storage.delete(key)
+    } catch (error) {
+      console.error(`Error deleting stored file ${key}:`, error)
+    }
+  }
+}
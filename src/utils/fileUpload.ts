@@ -1,23 +1,10 @@
 import multer from 'multer'
 import path from 'path'
-import fs from 'fs'
 import { randomUUID } from 'crypto'
 import type { Request } from 'express'
 
-const getUploadsDir = (): string => {
-  const configured = process.env.UPLOADS_DIR?.trim()
-  if (configured) {
-    return path.isAbsolute(configured) ? configured : path.join(process.cwd(), configured)
-  }
-  // Default (backwards-compatible)
-  return path.join(process.cwd(), 'uploads')
-}
-
-const ensureDirExists = (dirPath: string) => {
-  if (!fs.existsSync(dirPath)) {
-    fs.mkdirSync(dirPath, { recursive: true })
-  }
-}
+import { findExtractor, SUPPORTED_UPLOAD_EXTENSIONS } from '../services/extractors'
+import { getFileStorage } from '../services/storage'
 
 const sanitizeFileBaseName = (name: string): string => {
   const cleaned = name
@@ -28,35 +15,44 @@ const sanitizeFileBaseName = (name: string): string => {
   return cleaned.slice(0, 80)
 }
 
-// Configure multer for PDF file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    const uploadsDir = getUploadsDir()
-    ensureDirExists(uploadsDir)
-    cb(null, uploadsDir)
-  },
-  filename: (req, file, cb) => {
-    // Generate unique filename derived from original name + UUID (no hardcoded prefix)
-    const ext = path.extname(file.originalname) || '.pdf'
-    const base = sanitizeFileBaseName(path.basename(file.originalname, ext)) || 'document'
-    cb(null, `${base}-${randomUUID()}${ext}`)
-  },
-})
+/**
+ * Storage key of a new upload: the sanitized original name plus a UUID, keeping the
+ * extension so the format stays recognizable.
+ */
+const buildStorageKey = (file: Pick<Express.Multer.File, 'originalname' | 'mimetype'>) => {
+  const ext =
+    path.extname(file.originalname) ||
+    findExtractor(file.mimetype, file.originalname)?.extensions[0] ||
+    ''
+  const base = sanitizeFileBaseName(path.basename(file.originalname, ext)) || 'document'
+  return `${base}-${randomUUID()}${ext}`
+}
 
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Only accept PDF files
-  if (file.mimetype === 'application/pdf') {
+  // Only accept formats we can extract text from
+  if (findExtractor(file.mimetype, file.originalname)) {
     cb(null, true)
   } else {
-    cb(new Error('Only PDF files are allowed'))
+    cb(new Error(`Unsupported file type. Allowed: ${SUPPORTED_UPLOAD_EXTENSIONS.join(', ')}`))
   }
 }
 
+// Files are kept in memory until they pass validation and deduplication, then written to
+// the configured storage backend
 export const upload = multer({
-  storage,
+  storage: multer.memoryStorage(),
   fileFilter,
   limits: {
     fileSize: 10 * 1024 * 1024, // 10MB limit per file
     files: 10, // Maximum 10 files at once
   },
 })
+
+/**
+ * Writes an accepted upload to the storage backend and returns its key.
+ */
+export const storeUploadedFile = async (file: Express.Multer.File): Promise<string> => {
+  const key = buildStorageKey(file)
+  await getFileStorage().put(key, file.buffer, file.mimetype)
+  return key
+}
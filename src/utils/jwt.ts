@@ -1,15 +1,21 @@
-import jwt from 'jsonwebtoken'
+import jwt, { SignOptions } from 'jsonwebtoken'
 import { UserRole } from '../entities/User'
 
 const JWT_SECRET = process.env.JWT_SECRET || 'super-secret-key' // In production, always use env var
 
+// Access tokens are short-lived; clients renew them with a refresh token (POST /auth/refresh)
+const ACCESS_TOKEN_TTL = (process.env.JWT_ACCESS_TTL || '15m') as SignOptions['expiresIn']
+
 export interface TokenPayload {
   userId: string
   role: UserRole
+  // Must match `User.tokenVersion`; bumping it revokes every access token already issued
+  tokenVersion: number
 }
 
 export const signToken = (payload: TokenPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: '1d' })
+  const { userId, role, tokenVersion } = payload
+  return jwt.sign({ userId, role, tokenVersion }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL })
 }
 
 export const verifyToken = (token: string): TokenPayload => {
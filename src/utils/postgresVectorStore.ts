@@ -1,22 +1,62 @@
 import { VectorStore } from '@langchain/core/vectorstores'
 import { Document } from '@langchain/core/documents'
 import { Embeddings } from '@langchain/core/embeddings'
-import { Pool } from 'pg'
+import { Pool, PoolClient } from 'pg'
+import { reciprocalRankFusion } from '../services/rag/ragFusion'
+import { embeddingDistanceSql } from '../services/rag/ragSchema'
 import type { DbDocumentRow } from '../types/database'
+import type { EmbeddingSpec } from '../types/embeddings'
+import { hashToken } from './tokens'
 
 export class PostgresVectorStore extends VectorStore {
   private pool: Pool
   private kbId: string
+  private spec: EmbeddingSpec
 
   private toVectorLiteral(vec: number[]): string {
     // pgvector expects the canonical text format: [1,2,3]
     return `[${vec.join(',')}]`
   }
 
-  constructor(embeddings: Embeddings, pool: Pool, kbId: string) {
+  constructor(embeddings: Embeddings, pool: Pool, kbId: string, spec: EmbeddingSpec) {
     super(embeddings, {})
     this.pool = pool
     this.kbId = kbId
+    this.spec = spec
+  }
+
+  private requireDimension(): number {
+    if (this.spec.dimension === null) {
+      throw new Error(`Embedding dimension of knowledge base ${this.kbId} is not known yet`)
+    }
+    return this.spec.dimension
+  }
+
+  /**
+   * A KB is searched with a single query vector, so all of its chunks must come from the
+   * same model. Refuses to write when other chunks (excluding `documentId`, which is being
+   * replaced) were embedded differently.
+   */
+  private async assertCompatibleVectors(client: PoolClient, documentId?: string) {
+    const res = await client.query<{ embedding_model: string | null; embedding_dim: number }>(
+      `
+        SELECT embedding_model, embedding_dim
+        FROM kb_documents
+        WHERE kb_id = $1
+          AND (embedding_model IS DISTINCT FROM $2 OR embedding_dim IS DISTINCT FROM $3)
+          AND ($4::text IS NULL OR (metadata->>'documentId') IS DISTINCT FROM $4)
+        LIMIT 1
+      `,
+      [this.kbId, this.spec.model, this.requireDimension(), documentId ?? null],
+    )
+    const existing = res.rows[0]
+    if (existing) {
+      throw new Error(
+        `Knowledge base ${this.kbId} already contains ${existing.embedding_dim}-dimensional ` +
+          `vectors from ${existing.embedding_model ?? 'an unknown model'}; ` +
+          `reindex it before adding vectors from ${this.spec.model}`,
+      )
+    }
   }
 
   _vectorstoreType(): string {
@@ -29,22 +69,90 @@ export class PostgresVectorStore extends VectorStore {
     await this.addVectors(vectors, documents)
   }
 
+  private async insertRows(client: PoolClient, vectors: number[][], documents: Document[]) {
+    const dimension = this.requireDimension()
+    const insertQuery = `
+      INSERT INTO kb_documents
+        (kb_id, content, metadata, embedding, embedding_model, embedding_dim, content_hash)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `
+    for (let i = 0; i < documents.length; i++) {
+      if (vectors[i].length !== dimension) {
+        throw new Error(
+          `Embedding model ${this.spec.model} returned ${vectors[i].length} dimensions, expected ${dimension}`,
+        )
+      }
+      const vectorLiteral = this.toVectorLiteral(vectors[i])
+      await client.query(insertQuery, [
+        this.kbId,
+        documents[i].pageContent,
+        documents[i].metadata ?? {},
+        vectorLiteral,
+        this.spec.model,
+        dimension,
+        hashToken(documents[i].pageContent),
+      ])
+    }
+  }
+
+  /**
+   * Stored embeddings of this KB's model for chunks with the given content hashes, so
+   * unchanged chunks are not sent to the embeddings API again.
+   */
+  async findEmbeddingsByContentHash(hashes: string[]): Promise<Map<string, number[]>> {
+    if (this.spec.dimension === null || hashes.length === 0) return new Map()
+
+    const client = await this.pool.connect()
+    try {
+      const res = await client.query<{ content_hash: string; embedding: string }>(
+        `
+          SELECT DISTINCT ON (content_hash) content_hash, embedding::text AS embedding
+          FROM kb_documents
+          WHERE kb_id = $1
+            AND embedding_model = $2
+            AND embedding_dim = $3
+            AND content_hash = ANY($4)
+        `,
+        [this.kbId, this.spec.model, this.spec.dimension, hashes],
+      )
+      return new Map(res.rows.map(row => [row.content_hash, JSON.parse(row.embedding)]))
+    } finally {
+      client.release()
+    }
+  }
+
   async addVectors(vectors: number[][], documents: Document[]): Promise<void> {
     const client = await this.pool.connect()
     try {
-      const insertQuery = `
-        INSERT INTO kb_documents (kb_id, content, metadata, embedding)
-        VALUES ($1, $2, $3, $4)
-      `
-      for (let i = 0; i < documents.length; i++) {
-        const vectorLiteral = this.toVectorLiteral(vectors[i])
-        await client.query(insertQuery, [
-          this.kbId,
-          documents[i].pageContent,
-          documents[i].metadata ?? {},
-          vectorLiteral,
-        ])
-      }
+      await this.assertCompatibleVectors(client)
+      await this.insertRows(client, vectors, documents)
+    } finally {
+      client.release()
+    }
+  }
+
+  /**
+   * Swaps all chunks of one document in a single transaction, so chat never sees a
+   * half-indexed document and a failed run leaves the previous vectors in place.
+   */
+  async replaceDocumentVectors(
+    documentId: string,
+    vectors: number[][],
+    documents: Document[],
+  ): Promise<void> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await this.assertCompatibleVectors(client, documentId)
+      await client.query(
+        `DELETE FROM kb_documents WHERE kb_id = $1 AND (metadata->>'documentId') = $2`,
+        [this.kbId, documentId],
+      )
+      await this.insertRows(client, vectors, documents)
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK')
+      throw error
     } finally {
       client.release()
     }
@@ -54,41 +162,108 @@ export class PostgresVectorStore extends VectorStore {
     queryVector: number[],
     k: number,
   ): Promise<[Document, number][]> {
+    // Nothing was embedded yet for a model whose dimension is learned on first ingest.
+    if (this.spec.dimension === null) return []
+    const dimension = this.spec.dimension
+    if (queryVector.length !== dimension) {
+      throw new Error(`Query embedding has ${queryVector.length} dimensions, expected ${dimension}`)
+    }
+    const distance = embeddingDistanceSql(dimension, '$1')
+
     const client = await this.pool.connect()
     try {
       const queryVectorLiteral = this.toVectorLiteral(queryVector)
       const res = await client.query<DbDocumentRow>(
         `
           SELECT
+            id,
             content,
             metadata,
-            (1 - (embedding <=> $1)) AS score
+            (1 - ${distance}) AS score
           FROM kb_documents
-          WHERE kb_id = $2
-          ORDER BY embedding <=> $1
+          WHERE kb_id = $2 AND embedding_dim = ${dimension} AND embedding_model = $4
+          ORDER BY ${distance}
           LIMIT $3
         `,
-        [queryVectorLiteral, this.kbId, k],
+        [queryVectorLiteral, this.kbId, k, this.spec.model],
       )
 
-      return res.rows.map(row => [
-        new Document({
-          pageContent: row.content,
-          metadata: row.metadata || {},
-        }),
-        Number(row.score),
-      ])
+      return this.toResults(res.rows)
     } finally {
       client.release()
     }
   }
 
-  async deleteByKnowledgeBase(): Promise<void> {
+  /**
+   * Full-text search on `content_tsv`. Any query term may match (OR), ranked by cover density,
+   * so exact codes and names surface even when their embedding is not close to the question.
+   * Scores are still cosine similarities to `queryVector`, so they compare with vector results.
+   */
+  async keywordSearchWithScore(
+    queryVector: number[],
+    queryText: string,
+    k: number,
+  ): Promise<[Document, number][]> {
+    if (this.spec.dimension === null || !queryText.trim()) return []
+    const dimension = this.spec.dimension
+    if (queryVector.length !== dimension) {
+      throw new Error(`Query embedding has ${queryVector.length} dimensions, expected ${dimension}`)
+    }
+    const distance = embeddingDistanceSql(dimension, '$6')
+
     const client = await this.pool.connect()
     try {
-      await client.query(`DELETE FROM kb_documents WHERE kb_id = $1`, [this.kbId])
+      const res = await client.query<DbDocumentRow>(
+        `
+          SELECT
+            id,
+            content,
+            metadata,
+            (1 - ${distance}) AS score
+          FROM kb_documents,
+            replace(plainto_tsquery('simple', $1)::text, '&', '|')::tsquery AS query
+          WHERE kb_id = $2
+            AND embedding_dim = $4
+            AND embedding_model = $5
+            AND content_tsv @@ query
+          ORDER BY ts_rank_cd(content_tsv, query) DESC
+          LIMIT $3
+        `,
+        [queryText, this.kbId, k, dimension, this.spec.model, this.toVectorLiteral(queryVector)],
+      )
+      return this.toResults(res.rows)
     } finally {
       client.release()
     }
   }
+
+  /**
+   * Runs vector and keyword search in parallel and fuses both rankings (RRF).
+   * Fusion only decides the order; returned scores are cosine similarities, so `minScore`
+   * means the same as in vector mode.
+   */
+  async hybridSearchWithScore(
+    queryVector: number[],
+    queryText: string,
+    k: number,
+  ): Promise<[Document, number][]> {
+    // Fetch more candidates than needed so chunks ranked lower in one list can still win.
+    const candidates = Math.max(k * 3, 10)
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.similaritySearchVectorWithScore(queryVector, candidates),
+      this.keywordSearchWithScore(queryVector, queryText, candidates),
+    ])
+    return reciprocalRankFusion([vectorResults, keywordResults], k)
+  }
+
+  private toResults(rows: DbDocumentRow[]): [Document, number][] {
+    return rows.map(row => [
+      new Document({
+        id: row.id,
+        pageContent: row.content,
+        metadata: row.metadata || {},
+      }),
+      Number(row.score),
+    ])
+  }
 }
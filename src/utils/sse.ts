@@ -0,0 +1,36 @@
+import type { Request, Response } from 'express'
+
+/**
+ * Streaming is opt-in: `Accept: text/event-stream` or `?stream=1`.
+ */
+export const wantsEventStream = (req: Request): boolean => {
+  const stream = req.query.stream
+  if (stream === '1' || stream === 'true') return true
+  return (req.headers.accept || '').includes('text/event-stream')
+}
+
+export const openEventStream = (res: Response) => {
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  // Disable response buffering in nginx-style reverse proxies
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+}
+
+export const sendEvent = (res: Response, event: string, data: unknown) => {
+  if (res.writableEnded) return
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Writes an SSE comment periodically so proxies don't drop the connection while
+ * retrieval runs and before the first token arrives. Returns a stop function.
+ */
+export const startHeartbeat = (res: Response, intervalMs = 15_000): (() => void) => {
+  const timer = setInterval(() => {
+    if (!res.writableEnded) res.write(': ping\n\n')
+  }, intervalMs)
+  return () => clearInterval(timer)
+}
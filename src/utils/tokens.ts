@@ -0,0 +1,11 @@
+import { createHash, randomBytes } from 'crypto'
+
+/**
+ * Opaque random token for refresh, reset and verification links.
+ */
+export const generateOpaqueToken = (): string => randomBytes(48).toString('base64url')
+
+// Tokens are stored as SHA-256 hashes so a database leak does not expose usable tokens.
+// The same hex digest identifies file and chunk contents.
+export const hashToken = (token: string | Buffer): string =>
+  createHash('sha256').update(token).digest('hex')
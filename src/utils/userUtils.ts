@@ -4,6 +4,6 @@ import { User } from '../entities/User'
 /**
  * Helper function to sanitize user object by removing sensitive fields
  */
-export const sanitizeUser = (user: User): Omit<User, 'password'> => {
-  return omit(['password'], user)
+export const sanitizeUser = (user: User): Omit<User, 'password' | 'tokenVersion'> => {
+  return omit(['password', 'tokenVersion'], user)
 }